@@ -15,16 +15,19 @@ import crypto from "crypto";
 import * as net from "net";
 import open from "open";
 import path from "node:path";
-import {promises as fs} from "node:fs";
+import os from "node:os";
+import {promises as fs, existsSync} from "node:fs";
 import {
     cacheGoogleAccount, 
     getCachedGoogleAccount, 
+    getCachedGoogleAccounts,
     clearCachedGoogleAccount 
 } from "../utils/user_account.js";
-import {getCachedCredentialPath} from "../utils/paths.js";
+import {getAccountCredentialPath, getCachedCredentialPath} from "../utils/paths.js";
 import readline from "node:readline";
 import {Logger, getLogger} from "../utils/logger.js";
 import chalk from "chalk";
+import type {Account, AccountConfig} from "../gemini/account-pool.js";
 
 // OAuth Client ID used to initiate OAuth2Client class.
 const OAUTH_CLIENT_ID =
@@ -62,11 +65,18 @@ let userEmail: string | undefined;
 
 /**
  * Set up Google authentication
+ * @param disableBrowserAuth Use code based auth instead of the browser flow
+ * @param credentialPath Credential file of the account, the one shared with gemini-cli by default.
+ * Only the gemini-cli account is cached in accounts.json.
  * @returns OAuth2Client with valid credentials
  */
-export async function setupAuthentication(disableBrowserAuth: boolean): Promise<OAuth2Client> {
+export async function setupAuthentication(
+    disableBrowserAuth: boolean,
+    credentialPath: string = getCachedCredentialPath(),
+): Promise<OAuth2Client> {
     const logger = getLogger("AUTH", chalk.blue);
-    logger.info("setting up Google authentication...");
+    const isGeminiCliAccount = credentialPath === getCachedCredentialPath();
+    logger.info(`setting up Google authentication with ${chalk.underline(credentialPath)}...`);
     logger.info("if you have not used gemini-cli before, you might be prompted to sign-in");
   
     const client = new OAuth2Client({
@@ -75,14 +85,14 @@ export async function setupAuthentication(disableBrowserAuth: boolean): Promise<
     });
 
     client.on("tokens", async (tokens: Credentials) => {
-        await cacheCredentials(tokens);
+        await cacheCredentials(tokens, credentialPath);
     });
 
     // If there are cached creds on disk, they always take precedence
-    if (await loadCachedCredentials(client)) {
+    if (await loadCachedCredentials(client, credentialPath)) {
     // Found valid cached credentials.
     // Check if we need to retrieve Google Account ID or Email
-        if (!getCachedGoogleAccount()) {
+        if (isGeminiCliAccount && !getCachedGoogleAccount()) {
             try {
                 await fetchAndCacheUserInfo(client, logger);
             } catch {
@@ -90,10 +100,102 @@ export async function setupAuthentication(disableBrowserAuth: boolean): Promise<
             }
         }
         logger.info(`cached credentials loaded for: ${chalk.bold.underline(userEmail)}`);
-        logger.info(`to use another account, remove ${chalk.underline("~/.gemini")} folder and restart server`);
+        if (isGeminiCliAccount) {
+            logger.info(`to use another account, run ${chalk.underline("gemini-cli-proxy login")} or ${chalk.underline("gemini-cli-proxy accounts use <email>")} and restart server`);
+        }
         return client;
     }
 
+    await authenticate(client, disableBrowserAuth, logger, isGeminiCliAccount);
+    return client;
+}
+
+/**
+ * Log in with a Google account, even if credentials are cached. The account becomes the active
+ * account and its credentials are kept, so that `accounts use` can switch back to it later.
+ * @param disableBrowserAuth Use code based auth instead of the browser flow
+ * @returns Email of the account
+ */
+export async function login(disableBrowserAuth: boolean): Promise<string> {
+    const logger = getLogger("AUTH", chalk.blue);
+    const client = new OAuth2Client({
+        clientId: OAUTH_CLIENT_ID,
+        clientSecret: OAUTH_CLIENT_SECRET,
+    });
+
+    await authenticate(client, disableBrowserAuth, logger, false);
+    const email = await fetchUserEmail(client, logger);
+    if (!email) {
+        throw new Error("Could not retrieve the email of the account");
+    }
+
+    await keepActiveCredentials();
+    await cacheCredentials(client.credentials, getCachedCredentialPath());
+    await cacheCredentials(client.credentials, getAccountCredentialPath(email));
+    await cacheGoogleAccount(email);
+    return email;
+}
+
+/**
+ * Log out the active account, its credentials are removed including the kept ones
+ * @returns Email of the account, null when no account was logged in
+ */
+export async function logout(): Promise<string | null> {
+    const email = getCachedGoogleAccount();
+    if (email) {
+        await fs.rm(getAccountCredentialPath(email), {force: true});
+    }
+    await clearCachedCredentialFile();
+    return email;
+}
+
+/**
+ * Make an account logged in before the active one, the server uses it after a restart
+ * @param email Email of the account
+ */
+export async function useGoogleAccount(email: string): Promise<void> {
+    const {active, old} = await getCachedGoogleAccounts();
+    if (active === email) {
+        return;
+    }
+    // Only accounts listed by the accounts command, the email also names the credential file
+    if (!old.includes(email)) {
+        throw new Error(`Unknown account ${email}, list the accounts with gemini-cli-proxy accounts list`);
+    }
+    const credentialPath = getAccountCredentialPath(email);
+    if (!existsSync(credentialPath)) {
+        throw new Error(`No credentials for ${email}, log in with gemini-cli-proxy login`);
+    }
+
+    await keepActiveCredentials();
+    await fs.mkdir(path.dirname(getCachedCredentialPath()), {recursive: true});
+    await fs.copyFile(credentialPath, getCachedCredentialPath());
+    await cacheGoogleAccount(email);
+}
+
+/**
+ * Keep the credentials of the active account before another account replaces them. The active
+ * credentials are the most recent ones, the server caches refreshed tokens there.
+ */
+async function keepActiveCredentials(): Promise<void> {
+    const email = getCachedGoogleAccount();
+    if (!email || !existsSync(getCachedCredentialPath())) {
+        return;
+    }
+    const credentialPath = getAccountCredentialPath(email);
+    await fs.mkdir(path.dirname(credentialPath), {recursive: true});
+    await fs.copyFile(getCachedCredentialPath(), credentialPath);
+}
+
+/**
+ * Authenticate with the browser or, when browser launch is suppressed, the user code flow.
+ * Exits the process when authentication fails.
+ * @param client OAuth2Client instance
+ * @param disableBrowserAuth Use code based auth instead of the browser flow
+ * @param logger
+ * @param cacheAccount Whether to cache the Google account in accounts.json
+ */
+async function authenticate(client: OAuth2Client, disableBrowserAuth: boolean, logger: Logger, cacheAccount: boolean): Promise<void> {
     // Determine whether to use browser or code-based auth
     if (isBrowserLaunchSuppressed(disableBrowserAuth)) {
         let success = false;
@@ -108,7 +210,7 @@ export async function setupAuthentication(disableBrowserAuth: boolean): Promise<
             process.exit(1);
         }
     } else {
-        const webLogin = await authWithWeb(client, logger);
+        const webLogin = await authWithWeb(client, logger, cacheAccount);
 
         logger.info("Google login required.");
         logger.info("Opening auth page, otherwise navigate to:");
@@ -135,8 +237,25 @@ export async function setupAuthentication(disableBrowserAuth: boolean): Promise<
         await webLogin.loginCompletePromise;
         logger.info("Authentication complete.");
     }
+}
 
-    return client;
+/**
+ * Set up the accounts of the pool one after another, accounts without cached credentials are prompted to sign-in
+ * @param disableBrowserAuth Use code based auth instead of the browser flow
+ * @param configs Credential files and projects of the accounts
+ * @returns Authenticated accounts, in the order of their configs
+ */
+export async function setupAccounts(disableBrowserAuth: boolean, configs: AccountConfig[]): Promise<Account[]> {
+    const accounts: Account[] = [];
+    for (const {credentialPath, project} of configs) {
+        const resolvedPath = path.resolve(credentialPath);
+        accounts.push({
+            name: resolvedPath.replace(os.homedir(), "~"),
+            authClient: await setupAuthentication(disableBrowserAuth, resolvedPath),
+            project,
+        });
+    }
+    return accounts;
 }
 
 /**
@@ -196,9 +315,10 @@ async function authWithUserCode(client: OAuth2Client, logger: Logger): Promise<b
  * Authenticate with web-based flow
  * @param client OAuth2Client instance
  * @param logger
+ * @param cacheAccount Whether to cache the Google account in accounts.json
  * @returns Object containing auth URL and promise
  */
-async function authWithWeb(client: OAuth2Client, logger: Logger): Promise<OauthWebLogin> {
+async function authWithWeb(client: OAuth2Client, logger: Logger, cacheAccount: boolean): Promise<OauthWebLogin> {
     const port = await getAvailablePort();
     // The hostname used for the HTTP server binding (e.g., '0.0.0.0' in Docker).
     const host = process.env.OAUTH_CALLBACK_HOST || "localhost";
@@ -239,7 +359,9 @@ async function authWithWeb(client: OAuth2Client, logger: Logger): Promise<OauthW
                     client.setCredentials(tokens);
                     // Retrieve and cache Google Account ID during authentication
                     try {
-                        await fetchAndCacheUserInfo(client, logger);
+                        if (cacheAccount) {
+                            await fetchAndCacheUserInfo(client, logger);
+                        }
                     } catch (err) {
                         logger.error("Failed to retrieve Google Account ID during authentication");
                         if (err instanceof Error) {
@@ -307,12 +429,11 @@ function getAvailablePort(): Promise<number> {
 /**
  * Load credentials from cache
  * @param client OAuth2Client instance
+ * @param keyFile Credential file of the account
  * @returns true if valid credentials were loaded
  */
-async function loadCachedCredentials(client: OAuth2Client): Promise<boolean> {
+async function loadCachedCredentials(client: OAuth2Client, keyFile: string): Promise<boolean> {
     try {
-        const keyFile = getCachedCredentialPath();
-
         const creds = await fs.readFile(keyFile, "utf-8");
         client.setCredentials(JSON.parse(creds));
 
@@ -334,9 +455,9 @@ async function loadCachedCredentials(client: OAuth2Client): Promise<boolean> {
 /**
  * Cache credentials to disk
  * @param credentials OAuth credentials
+ * @param filePath Credential file of the account
  */
-async function cacheCredentials(credentials: Credentials) {
-    const filePath = getCachedCredentialPath();
+async function cacheCredentials(credentials: Credentials, filePath: string) {
     await fs.mkdir(path.dirname(filePath), {recursive: true});
 
     const credString = JSON.stringify(credentials, null, 2);
@@ -362,10 +483,23 @@ export async function clearCachedCredentialFile() {
  * @param logger
  */
 async function fetchAndCacheUserInfo(client: OAuth2Client, logger: Logger): Promise<void> {
+    const email = await fetchUserEmail(client, logger);
+    if (email) {
+        await cacheGoogleAccount(email);
+    }
+}
+
+/**
+ * Fetch the email of the Google account
+ * @param client OAuth2Client instance
+ * @param logger
+ * @returns The email, undefined when it could not be retrieved
+ */
+async function fetchUserEmail(client: OAuth2Client, logger: Logger): Promise<string | undefined> {
     try {
         const {token} = await client.getAccessToken();
         if (!token) {
-            return;
+            return undefined;
         }
 
         const response = await fetch(
@@ -379,18 +513,17 @@ async function fetchAndCacheUserInfo(client: OAuth2Client, logger: Logger): Prom
 
         if (!response.ok) {
             logger.error(`Failed to fetch user info:: ${chalk.bold(response.status)} ${chalk.bold(response.statusText)}`);
-            return;
+            return undefined;
         }
 
         const userInfo = await response.json() as {email?: string};
-        if (userInfo.email) {
-            await cacheGoogleAccount(userInfo.email);
-        }
+        return userInfo.email;
     } catch (err) {
         logger.error("Error retrieving user info:");
         if (err instanceof Error) {
             logger.error(err.message);
         }
+        return undefined;
     }
 }
 
@@ -0,0 +1,175 @@
+import {describe, it, expect, vi, afterEach} from "vitest";
+import {OAuth2Client} from "google-auth-library";
+import {InvalidArgumentError} from "@commander-js/extra-typings";
+import {AccountPool, parseAccount, parseAccountRotation, type Account} from "./account-pool.js";
+
+class RateLimitError extends Error {
+    constructor(public readonly statusCode: number, public readonly retryAfterMs?: number) {
+        super(`rate limited with ${statusCode}`);
+    }
+}
+
+const createAccount = (name: string): Account => ({name, authClient: {} as OAuth2Client});
+
+const [first, second, third] = ["first", "second", "third"].map(createAccount);
+
+/**
+ * Request answering with the account name, rate limited for the given accounts
+ */
+const answerUnless = (rateLimited: Account[], calls: string[] = []) => async (account: Account) => {
+    calls.push(account.name);
+    if (rateLimited.includes(account)) {
+        throw new RateLimitError(429);
+    }
+    return account.name;
+};
+
+describe("parseAccount", () => {
+    it("should parse a credential file and its project", () => {
+        expect(parseAccount("work.json=my-project")).toEqual([{credentialPath: "work.json", project: "my-project"}]);
+        expect(parseAccount("home.json", [{credentialPath: "work.json"}])).toEqual([
+            {credentialPath: "work.json"},
+            {credentialPath: "home.json", project: undefined},
+        ]);
+    });
+
+    it("should reject a value without credential file", () => {
+        expect(() => parseAccount("=my-project")).toThrow(InvalidArgumentError);
+    });
+});
+
+describe("parseAccountRotation", () => {
+    it("should reject unknown rotations", () => {
+        expect(parseAccountRotation("failover")).toBe("failover");
+        expect(() => parseAccountRotation("random")).toThrow(new InvalidArgumentError("Expected one of round-robin, failover."));
+    });
+});
+
+describe("AccountPool", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should require an account", () => {
+        expect(() => new AccountPool([])).toThrow("at least one account");
+    });
+
+    it("should send every request with the next account in round-robin", async () => {
+        const pool = new AccountPool([first, second, third]);
+        const calls: string[] = [];
+
+        for (let i = 0; i < 4; i++) {
+            await pool.withAccount("pro", answerUnless([], calls));
+        }
+
+        expect(calls).toEqual(["first", "second", "third", "first"]);
+    });
+
+    it("should start every model of a request with the account of its turn", async () => {
+        const pool = new AccountPool([first, second, third]);
+        const calls: string[] = [];
+
+        // The request falls back from pro, rate limited on every account, to flash
+        const turn = pool.takeTurn();
+        await expect(pool.withAccount("pro", answerUnless([first, second, third]), turn)).rejects.toThrow(RateLimitError);
+        await pool.withAccount("flash", answerUnless([], calls), turn);
+        await pool.withAccount("flash", answerUnless([], calls));
+
+        expect(calls).toEqual(["first", "second"]);
+    });
+
+    it("should move to the next account when one is rate limited", async () => {
+        const pool = new AccountPool([first, second, third]);
+        const calls: string[] = [];
+
+        expect(await pool.withAccount("pro", answerUnless([first], calls))).toBe("second");
+        expect(calls).toEqual(["first", "second"]);
+        expect(pool.isInCooldown(first, "pro")).toBe(true);
+        expect(pool.isInCooldown(first, "flash")).toBe(false);
+    });
+
+    it("should skip accounts in cooldown for later requests", async () => {
+        const pool = new AccountPool([first, second], "round-robin");
+        await pool.withAccount("pro", answerUnless([first]));
+        const calls: string[] = [];
+
+        await pool.withAccount("pro", answerUnless([], calls));
+        await pool.withAccount("pro", answerUnless([], calls));
+
+        expect(calls).toEqual(["second", "second"]);
+    });
+
+    it("should stay on the account that answered with failover", async () => {
+        const pool = new AccountPool([first, second, third], "failover");
+        const calls: string[] = [];
+
+        await pool.withAccount("pro", answerUnless([], calls));
+        await pool.withAccount("pro", answerUnless([first], calls));
+        await pool.withAccount("pro", answerUnless([], calls));
+
+        expect(calls).toEqual(["first", "first", "second", "second"]);
+    });
+
+    it("should rethrow the rate limit when every account is rate limited", async () => {
+        const pool = new AccountPool([first, second]);
+        const calls: string[] = [];
+        const rateLimited = async (account: Account) => {
+            calls.push(account.name);
+            throw new RateLimitError(429, account === first ? 60000 : 30000);
+        };
+        await expect(pool.withAccount("pro", rateLimited)).rejects.toThrow(RateLimitError);
+
+        // Only the account recovering first is tried again, so the model can be switched
+        await expect(pool.withAccount("pro", rateLimited)).rejects.toThrow(RateLimitError);
+        expect(calls).toEqual(["first", "second", "second"]);
+    });
+
+    it("should not move to another account on other errors", async () => {
+        const pool = new AccountPool([first, second]);
+        const calls: string[] = [];
+        const failing = async (account: Account) => {
+            calls.push(account.name);
+            throw new RateLimitError(503);
+        };
+
+        await expect(pool.withAccount("pro", failing)).rejects.toThrow(RateLimitError);
+        expect(calls).toEqual(["first"]);
+        expect(pool.isInCooldown(first, "pro")).toBe(false);
+    });
+
+    it("should honor the delay upstream asked for", async () => {
+        vi.useFakeTimers();
+        const pool = new AccountPool([first, second]);
+        await pool.withAccount("pro", async (account: Account) => {
+            if (account === first) {
+                throw new RateLimitError(429, 30000);
+            }
+            return account.name;
+        });
+
+        expect(pool.isInCooldown(first, "pro")).toBe(true);
+        vi.advanceTimersByTime(30001);
+        expect(pool.isInCooldown(first, "pro")).toBe(false);
+    });
+
+    it("should move streams to another account only before the first value", async () => {
+        const pool = new AccountPool([first, second]);
+        async function* stream(account: Account) {
+            if (account === first) {
+                throw new RateLimitError(429);
+            }
+            yield `${account.name}-1`;
+            throw new RateLimitError(429);
+        }
+
+        const values: unknown[] = [];
+        await expect(async () => {
+            for await (const value of pool.withStreamAccount("pro", stream)) {
+                values.push(value);
+            }
+        }).rejects.toThrow(RateLimitError);
+
+        expect(values).toEqual(["second-1"]);
+        expect(pool.isInCooldown(second, "pro")).toBe(false);
+    });
+});
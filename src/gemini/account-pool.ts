@@ -0,0 +1,215 @@
+/**
+ * Pool of Google accounts requests are spread over.
+ *
+ * Quotas are per account and model, so an account that hit a 429 is put in cooldown for that model
+ * only and the request is sent with the next account. Only once every account is rate limited for a
+ * model, the error reaches auto model switching, which then downgrades the model.
+ */
+
+import {OAuth2Client} from "google-auth-library";
+import {InvalidArgumentError} from "@commander-js/extra-typings";
+import chalk from "chalk";
+import {ACCOUNT_ROTATION_STATUS_CODES, DEFAULT_COOLDOWN_MINUTES} from "../utils/constant.js";
+import {getLogger} from "../utils/logger.js";
+
+/**
+ * Credential file of an account and the Google Cloud project it uses
+ */
+export type AccountConfig = {
+    credentialPath: string;
+    project?: string;
+};
+
+/**
+ * Authenticated account of the pool
+ */
+export type Account = {
+    // Identifies the account in logs, e.g. its credential file
+    name: string;
+    authClient: OAuth2Client;
+    // Project of the account, discovered through Code Assist when not configured
+    project?: string;
+};
+
+/**
+ * How requests are spread over the accounts:
+ * round-robin sends every request with the next account,
+ * failover keeps using one account until it is rate limited
+ */
+export type AccountRotation = "round-robin" | "failover";
+
+export const ACCOUNT_ROTATIONS: readonly AccountRotation[] = ["round-robin", "failover"];
+
+/**
+ * Parses the account CLI option, e.g. ~/.gemini/work_creds.json=my-project
+ * @param {string} value - Credential file and optional project
+ * @param {AccountConfig[]} accounts - Accounts parsed from previous occurrences of the option
+ * @returns {AccountConfig[]} Accounts including the parsed one
+ */
+export const parseAccount = (value: string, accounts: AccountConfig[] = []): AccountConfig[] => {
+    const [credentialPath, project] = value.split("=");
+    if (!credentialPath.trim()) {
+        throw new InvalidArgumentError("Expected <credentials>[=<project>].");
+    }
+    return [...accounts, {credentialPath: credentialPath.trim(), project: project?.trim() || undefined}];
+};
+
+/**
+ * Parses the account rotation CLI option
+ */
+export const parseAccountRotation = (value: string): AccountRotation => {
+    if (!(ACCOUNT_ROTATIONS as readonly string[]).includes(value)) {
+        throw new InvalidArgumentError(`Expected one of ${ACCOUNT_ROTATIONS.join(", ")}.`);
+    }
+    return value as AccountRotation;
+};
+
+export class AccountPool {
+    // Index of the account the next request starts with
+    private next = 0;
+    // Per account, the timestamp until which each rate limited model may not be used
+    private readonly cooldowns = new Map<Account, Map<string, number>>();
+    private readonly logger = getLogger("ACCOUNTS", chalk.cyan);
+
+    /**
+     * @param {Account[]} accounts - Accounts in the order they are used
+     * @param {AccountRotation} rotation - How requests are spread over the accounts
+     * @param {number} cooldownMs - Cooldown of a rate limited account when upstream does not say when to retry
+     */
+    constructor(
+        readonly accounts: Account[],
+        private readonly rotation: AccountRotation = "round-robin",
+        private readonly cooldownMs: number = DEFAULT_COOLDOWN_MINUTES * 60 * 1000,
+    ) {
+        if (accounts.length === 0) {
+            throw new Error("The account pool needs at least one account");
+        }
+    }
+
+    /**
+     * Check if an account is in cooldown for a model
+     */
+    public isInCooldown(account: Account, model: string): boolean {
+        return Date.now() < (this.cooldowns.get(account)?.get(model) ?? 0);
+    }
+
+    /**
+     * Index of the account a new request starts with. With round-robin every call moves the turn on,
+     * so a request takes one turn and reuses it for every model it falls back to.
+     */
+    public takeTurn(): number {
+        const turn = this.next;
+        if (this.rotation === "round-robin") {
+            this.next = (this.next + 1) % this.accounts.length;
+        }
+        return turn;
+    }
+
+    /**
+     * Accounts to try for a request in order, starting with the account of its turn and
+     * skipping those in cooldown for the model
+     * @param {string} model - Model of the request
+     * @param {number} turn - Index of the first account, from takeTurn
+     * @returns {Account[]} Accounts to try, the one recovering first alone when every account is in cooldown
+     */
+    public getCandidateAccounts(model: string, turn: number): Account[] {
+        const ordered = [...this.accounts.slice(turn), ...this.accounts.slice(0, turn)];
+        const available = ordered.filter((account) => !this.isInCooldown(account, model));
+        if (available.length > 0) {
+            return available;
+        }
+        // Its rate limit is passed on, so auto model switching can downgrade the model
+        const cooldownUntil = (account: Account) => this.cooldowns.get(account)?.get(model) ?? 0;
+        return [ordered.reduce((first, account) => cooldownUntil(account) < cooldownUntil(first) ? account : first)];
+    }
+
+    /**
+     * Runs a request with the accounts of the pool until one is not rate limited
+     * @param {string} model - Model of the request
+     * @param {Function} operation - Request with one account
+     * @param {number} turn - Turn of the request, a new one by default
+     * @returns {Promise<T>} Result of the first account that answered
+     */
+    public async withAccount<T>(model: string, operation: (account: Account) => Promise<T>, turn: number = this.takeTurn()): Promise<T> {
+        let lastError: unknown;
+        for (const account of this.getCandidateAccounts(model, turn)) {
+            try {
+                const result = await operation(account);
+                this.recordSuccess(account, model);
+                return result;
+            } catch (error) {
+                if (!this.recordFailure(account, model, error)) {
+                    throw error;
+                }
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    /**
+     * Streams a request with the accounts of the pool until one is not rate limited,
+     * a stream is never moved to another account once it started
+     * @param {string} model - Model of the request
+     * @param {Function} operation - Stream with one account
+     * @param {number} turn - Turn of the request, a new one by default
+     * @returns {AsyncGenerator<T>} Values of the first account that answered
+     */
+    public async* withStreamAccount<T>(
+        model: string,
+        operation: (account: Account) => AsyncIterable<T>,
+        turn: number = this.takeTurn(),
+    ): AsyncGenerator<T> {
+        let lastError: unknown;
+        for (const account of this.getCandidateAccounts(model, turn)) {
+            let started = false;
+            try {
+                for await (const value of operation(account)) {
+                    if (!started) {
+                        started = true;
+                        this.recordSuccess(account, model);
+                    }
+                    yield value;
+                }
+                return;
+            } catch (error) {
+                if (started || !this.recordFailure(account, model, error)) {
+                    throw error;
+                }
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    /**
+     * Record that an account answered, clearing its cooldown. With failover the following
+     * requests stay on the account.
+     */
+    private recordSuccess(account: Account, model: string): void {
+        this.cooldowns.get(account)?.delete(model);
+        if (this.rotation === "failover") {
+            this.next = this.accounts.indexOf(account);
+        }
+    }
+
+    /**
+     * Record a failed request, rate limited accounts are put in cooldown for the model
+     * @returns {boolean} True if the next account should be tried
+     */
+    private recordFailure(account: Account, model: string, error: unknown): boolean {
+        const {statusCode, retryAfterMs} = (error ?? {}) as {statusCode?: unknown; retryAfterMs?: number};
+        if (typeof statusCode !== "number" || !(ACCOUNT_ROTATION_STATUS_CODES as readonly number[]).includes(statusCode)) {
+            return false;
+        }
+        const cooldownUntil = Date.now() + (retryAfterMs ?? this.cooldownMs);
+        let modelCooldowns = this.cooldowns.get(account);
+        if (!modelCooldowns) {
+            modelCooldowns = new Map();
+            this.cooldowns.set(account, modelCooldowns);
+        }
+        modelCooldowns.set(model, cooldownUntil);
+        this.logger.info(`Account ${account.name} rate limited for ${model} until ${new Date(cooldownUntil).toISOString()}`);
+        return true;
+    }
+}
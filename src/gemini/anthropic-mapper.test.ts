@@ -1,7 +1,13 @@
-import {describe, it, expect} from "vitest";
-import {mapAnthropicMessagesRequestToGemini, mapGeminiResponseToAnthropic} from "./anthropic-mapper.js";
+import {describe, it, expect, beforeEach} from "vitest";
+import {
+    mapAnthropicMessagesRequestToGemini,
+    mapGeminiResponseToAnthropic,
+    mapOpenAIStreamToAnthropicEvents
+} from "./anthropic-mapper.js";
 import * as Anthropic from "../types/anthropic.js";
+import * as OpenAI from "../types/openai.js";
 import * as Gemini from "../types/gemini.js";
+import {signatureCache} from "./signature-cache.js";
 
 describe("mapAnthropicMessagesRequestToGemini", () => {
     it("should map basic request with simple message", () => {
@@ -16,10 +22,9 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
-        expect(result.model).toBe(Gemini.Model.Gemini3ProPreview);
-        expect(result.project).toBe("test-project");
+        expect(result.model).toBe("gemini-2.5-pro");
         expect(result.request.contents).toHaveLength(1);
         expect(result.request.contents[0].role).toBe("user");
         expect(result.request.contents[0].parts).toEqual([{text: "Hello world"}]);
@@ -38,11 +43,32 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.generationConfig?.temperature).toBe(0.7);
     });
 
+    it("should map max_tokens, top_p, top_k and stop_sequences", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-haiku-20240307",
+            max_tokens: 500,
+            top_p: 0.8,
+            top_k: 40,
+            stop_sequences: ["\n\nHuman:"],
+            messages: [{role: "user", content: "Test message"}]
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(request);
+
+        expect(result.request.generationConfig).toEqual({
+            temperature: 1,
+            topP: 0.8,
+            topK: 40,
+            maxOutputTokens: 500,
+            stopSequences: ["\n\nHuman:"]
+        });
+    });
+
     it("should map request with system message", () => {
         const request: Anthropic.MessagesRequest = {
             model: "claude-3-opus-20240229",
@@ -61,7 +87,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.systemInstruction).toBeDefined();
         expect(result.request.systemInstruction?.parts).toEqual([
@@ -98,7 +124,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.tools).toBeDefined();
         expect(result.request.tools?.[0]?.functionDeclarations).toHaveLength(1);
@@ -141,7 +167,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.toolConfig).toEqual({
             functionCallingConfig: {
@@ -170,7 +196,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.toolConfig).toEqual({
             functionCallingConfig: {
@@ -202,7 +228,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.toolConfig).toEqual({
             functionCallingConfig: {
@@ -237,7 +263,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toHaveLength(2);
         expect(result.request.contents[0].parts[0]).toEqual({text: "Hello\n"});
@@ -266,7 +292,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toEqual([{text: "Hello world\n"}]);
     });
@@ -288,7 +314,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toEqual([{text: "Hello world\n"}]);
     });
@@ -310,7 +336,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toEqual([{text: "\n"}]);
     });
@@ -340,7 +366,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toEqual([
             {text: "First text\n"},
@@ -378,7 +404,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toEqual([
             {text: "Look at this image\n"},
@@ -404,7 +430,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.contents[0].role).toBe("model");
         expect(result.request.contents[0].parts).toEqual([{text: "Hello from assistant"}]);
@@ -430,7 +456,7 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             ]
         };
 
-        const result = mapAnthropicMessagesRequestToGemini("test-project", request);
+        const result = mapAnthropicMessagesRequestToGemini(request);
 
         expect(result.request.toolConfig).toEqual({
             functionCallingConfig: {
@@ -440,6 +466,257 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
     });
 });
 
+describe("Anthropic tool_use / tool_result mapping", () => {
+    beforeEach(() => {
+        signatureCache.clear();
+    });
+
+    it("should map assistant tool_use blocks to functionCall parts", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-5-sonnet-20241022",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "user",
+                    content: "What is the weather?"
+                },
+                {
+                    role: "assistant",
+                    content: [
+                        {type: "text", text: "Let me check."},
+                        {type: "tool_use", id: "toolu_1", name: "get_weather", input: {location: "Paris"}}
+                    ]
+                }
+            ]
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(request);
+
+        expect(result.request.contents[1]).toEqual({
+            role: "model",
+            parts: [
+                {text: "Let me check.\n"},
+                {functionCall: {name: "get_weather", args: {location: "Paris"}}}
+            ]
+        });
+    });
+
+    it("should map tool_result blocks to functionResponse parts with the matching tool name", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-5-sonnet-20241022",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "assistant",
+                    content: [
+                        {type: "tool_use", id: "toolu_1", name: "read_file", input: {path: "a.ts"}},
+                        {type: "tool_use", id: "toolu_2", name: "list_dir", input: {path: "."}}
+                    ]
+                },
+                {
+                    role: "user",
+                    content: [
+                        {type: "tool_result", tool_use_id: "toolu_2", content: "a.ts\nb.ts"},
+                        {type: "tool_result", tool_use_id: "toolu_1", content: [{type: "text", text: "line 1"}, {type: "text", text: "line 2"}]}
+                    ]
+                }
+            ]
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(request);
+
+        expect(result.request.contents[1]).toEqual({
+            role: "user",
+            parts: [
+                {functionResponse: {name: "list_dir", response: {result: "a.ts\nb.ts"}}},
+                {functionResponse: {name: "read_file", response: {result: "line 1\nline 2"}}}
+            ]
+        });
+    });
+
+    it("should map errored tool_result and append nested images as inline data", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-5-sonnet-20241022",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "assistant",
+                    content: [{type: "tool_use", id: "toolu_1", name: "screenshot", input: {}}]
+                },
+                {
+                    role: "user",
+                    content: [
+                        {
+                            type: "tool_result",
+                            tool_use_id: "toolu_1",
+                            is_error: true,
+                            content: [
+                                {type: "text", text: "partial capture"},
+                                {type: "image", source: {type: "base64", media_type: "image/png", data: "iVBORw0KGgo="}}
+                            ]
+                        }
+                    ]
+                }
+            ]
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(request);
+
+        expect(result.request.contents[1].parts).toEqual([
+            {functionResponse: {name: "screenshot", response: {error: "partial capture"}}},
+            {inlineData: {mimeType: "image/png", data: "iVBORw0KGgo="}}
+        ]);
+    });
+
+    it("should fall back to unknown name when tool_use is not in history", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-5-sonnet-20241022",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "user",
+                    content: [{type: "tool_result", tool_use_id: "toolu_missing"}]
+                }
+            ]
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(request);
+
+        expect(result.request.contents[0].parts).toEqual([
+            {functionResponse: {name: "unknown", response: {result: ""}}}
+        ]);
+    });
+
+    it("should restore cached thought signature on tool_use parts", () => {
+        signatureCache.store("toolu_1", "sig-abc", "thinking about weather");
+
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-5-sonnet-20241022",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "assistant",
+                    content: [{type: "tool_use", id: "toolu_1", name: "get_weather", input: {}}]
+                }
+            ]
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(request);
+
+        expect(result.request.contents[0].parts[0]).toEqual({
+            functionCall: {name: "get_weather", args: {}},
+            thought_signature: "sig-abc"
+        });
+    });
+});
+
+describe("Anthropic extended thinking mapping", () => {
+    beforeEach(() => {
+        signatureCache.clear();
+    });
+
+    it("should map enabled thinking to thinkingConfig", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "gemini-2.5-pro",
+            max_tokens: 16000,
+            thinking: {type: "enabled", budget_tokens: 10000},
+            messages: [{role: "user", content: "Think hard"}]
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(request);
+
+        expect(result.request.generationConfig?.thinkingConfig).toEqual({
+            thinkingBudget: 10000,
+            includeThoughts: true
+        });
+    });
+
+    it("should not set thinkingConfig when thinking is disabled", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "gemini-2.5-pro",
+            max_tokens: 1000,
+            thinking: {type: "disabled"},
+            messages: [{role: "user", content: "Hello"}]
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(request);
+
+        expect(result.request.generationConfig?.thinkingConfig).toBeUndefined();
+    });
+
+    it("should restore thinking blocks as thought parts and sign function calls", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "gemini-2.5-pro",
+            max_tokens: 1000,
+            messages: [
+                {role: "user", content: "What is the weather?"},
+                {
+                    role: "assistant",
+                    content: [
+                        {type: "thinking", thinking: "I need the weather tool", signature: "sig-thinking"},
+                        {type: "tool_use", id: "toolu_1", name: "get_weather", input: {}}
+                    ]
+                }
+            ]
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(request);
+
+        expect(result.request.contents[1].parts).toEqual([
+            {text: "I need the weather tool", thought: true, thought_signature: "sig-thinking"},
+            {functionCall: {name: "get_weather", args: {}}, thought_signature: "sig-thinking"}
+        ]);
+    });
+
+    it("should restore redacted_thinking blocks with their data as signature", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "gemini-2.5-pro",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "assistant",
+                    content: [
+                        {type: "redacted_thinking", data: "opaque-sig"},
+                        {type: "text", text: "Done"}
+                    ]
+                }
+            ]
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(request);
+
+        expect(result.request.contents[0].parts).toEqual([
+            {text: "", thought: true, thought_signature: "opaque-sig"},
+            {text: "Done\n"}
+        ]);
+    });
+
+    it("should prefer the cached signature over the thinking block signature", () => {
+        signatureCache.store("toolu_1", "sig-cached", "cached thought");
+
+        const request: Anthropic.MessagesRequest = {
+            model: "gemini-2.5-pro",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "assistant",
+                    content: [
+                        {type: "thinking", thinking: "thought", signature: "sig-client"},
+                        {type: "tool_use", id: "toolu_1", name: "get_weather", input: {}}
+                    ]
+                }
+            ]
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(request);
+
+        expect(result.request.contents[0].parts[1]).toEqual({
+            functionCall: {name: "get_weather", args: {}},
+            thought_signature: "sig-cached"
+        });
+    });
+});
+
 describe("mapGeminiResponseToAnthropic", () => {
     it("should map basic text response", () => {
         const geminiResponse = {
@@ -549,6 +826,44 @@ describe("mapGeminiResponseToAnthropic", () => {
         });
     });
 
+    it("should map thinking into a leading thinking block", () => {
+        const geminiResponse = {
+            content: "The answer is 4",
+            thinking: "2 + 2 = 4",
+            signature: "sig-1"
+        };
+
+        const result = mapGeminiResponseToAnthropic(geminiResponse, "claude-3-5-sonnet-20241022", "req-thinking");
+
+        expect(result.content).toEqual([
+            {type: "thinking", thinking: "2 + 2 = 4", signature: "sig-1"},
+            {type: "text", text: "The answer is 4"}
+        ]);
+    });
+
+    it("should map a signature without thinking into a leading redacted_thinking block", () => {
+        const geminiResponse = {
+            signature: "sig-call",
+            tool_calls: [{id: "call_uncached", function: {name: "get_weather", arguments: "{\"city\":\"Paris\"}"}}]
+        };
+
+        const result = mapGeminiResponseToAnthropic(geminiResponse, "claude-3-5-sonnet-20241022", "req-signature");
+
+        expect(result.content).toEqual([
+            {type: "redacted_thinking", data: "sig-call"},
+            {type: "tool_use", id: "call_uncached", name: "get_weather", input: {city: "Paris"}}
+        ]);
+        // The next turn gets the signature back without the cache of this process
+        const nextTurn = mapAnthropicMessagesRequestToGemini({
+            model: "gemini-2.5-pro",
+            max_tokens: 1000,
+            messages: [{role: "assistant", content: result.content}]
+        });
+        expect(nextTurn.request.contents[0].parts).toContainEqual(
+            {functionCall: {name: "get_weather", args: {city: "Paris"}}, thought_signature: "sig-call"}
+        );
+    });
+
     it("should handle response with no content or tool calls", () => {
         const geminiResponse = {
             usage: {
@@ -596,6 +911,61 @@ describe("mapGeminiResponseToAnthropic", () => {
         });
     });
 
+    it("should report cached tokens as cache_read_input_tokens", () => {
+        const geminiResponse = {
+            content: "Cached",
+            usage: {
+                inputTokens: 100,
+                outputTokens: 5,
+                cachedTokens: 60
+            }
+        };
+
+        const result = mapGeminiResponseToAnthropic(geminiResponse, "claude-3-5-sonnet-20241022", "req-cached");
+
+        expect(result.usage).toEqual({
+            input_tokens: 40,
+            output_tokens: 5,
+            cache_read_input_tokens: 60
+        });
+    });
+
+    it("should report max_tokens when the output was cut off", () => {
+        const result = mapGeminiResponseToAnthropic({content: "Trunc", finishReason: "length"}, "claude-3-5-sonnet-20241022", "req-length");
+
+        expect(result.stop_reason).toBe("max_tokens");
+    });
+
+    it("should report a matched stop sequence as end_turn since Gemini doesn't tell it apart", () => {
+        const result = mapGeminiResponseToAnthropic({content: "1, 2, 3", finishReason: "stop"}, "claude-3-5-sonnet-20241022", "req-stop");
+
+        expect(result.stop_reason).toBe("end_turn");
+        expect(result).not.toHaveProperty("stop_sequence");
+    });
+
+    it("should add Google Search citations to the text block", () => {
+        const geminiResponse = {
+            content: "Rome is rainy.",
+            grounding: {
+                groundingChunks: [{web: {uri: "https://example.com/rome"}}]
+            }
+        };
+
+        const result = mapGeminiResponseToAnthropic(geminiResponse, "claude-3-5-sonnet-20241022", "req-grounded");
+
+        expect(result.content).toEqual([{
+            type: "text",
+            text: "Rome is rainy.",
+            citations: [{
+                type: "web_search_result_location",
+                url: "https://example.com/rome",
+                title: "https://example.com/rome",
+                cited_text: "",
+                encrypted_index: ""
+            }]
+        }]);
+    });
+
     it("should handle malformed JSON in tool call arguments", () => {
         const geminiResponse = {
             tool_calls: [
@@ -613,4 +983,260 @@ describe("mapGeminiResponseToAnthropic", () => {
             mapGeminiResponseToAnthropic(geminiResponse, "claude-3-5-sonnet-20241022", "req-bad-json");
         }).toThrow();
     });
-});
\ No newline at end of file
+});
+describe("mapOpenAIStreamToAnthropicEvents", () => {
+    const chunk = (delta: OpenAI.StreamDelta, finishReason: string | null = null): OpenAI.StreamChunk => ({
+        id: "chat-1",
+        object: "chat.completion.chunk",
+        created: 0,
+        model: "gemini-3-pro-preview",
+        choices: [{index: 0, delta, finish_reason: finishReason}],
+    });
+
+    async function* streamOf(...chunks: OpenAI.StreamChunk[]): AsyncGenerator<OpenAI.StreamChunk> {
+        yield* chunks;
+    }
+
+    const collect = async (stream: AsyncIterable<Anthropic.MessageStreamEvent>): Promise<Anthropic.MessageStreamEvent[]> => {
+        const events: Anthropic.MessageStreamEvent[] = [];
+        for await (const event of stream) {
+            events.push(event);
+        }
+        return events;
+    };
+
+    it("should stream text as a single text block", async () => {
+        const events = await collect(mapOpenAIStreamToAnthropicEvents(
+            streamOf(chunk({role: "assistant", content: "Hello"}), chunk({content: " world"}), chunk({}, "stop")),
+            "msg_1",
+        ));
+
+        expect(events.map((event) => event.type)).toEqual([
+            "message_start",
+            "content_block_start",
+            "content_block_delta",
+            "content_block_delta",
+            "content_block_stop",
+            "message_delta",
+            "message_stop",
+        ]);
+        expect((events[0] as Anthropic.MessageStartEvent).message.model).toBe("gemini-3-pro-preview");
+        expect(events[1]).toEqual({type: "content_block_start", index: 0, content_block: {type: "text", text: ""}});
+        expect(events[3]).toEqual({type: "content_block_delta", index: 0, delta: {type: "text_delta", text: " world"}});
+        expect((events[5] as Anthropic.MessageDeltaEvent).delta.stop_reason).toBe("end_turn");
+    });
+
+    it("should emit each tool call as its own tool_use block", async () => {
+        const events = await collect(mapOpenAIStreamToAnthropicEvents(
+            streamOf(
+                chunk({role: "assistant", content: "Checking."}),
+                chunk({tool_calls: [{index: 0, id: "call_1", type: "function", function: {name: "get_weather", arguments: "{\"city\":\"Paris\"}"}}]}),
+                chunk({tool_calls: [{index: 1, id: "call_2", type: "function", function: {name: "get_time", arguments: "{}"}}]}),
+                chunk({}, "tool_calls"),
+            ),
+            "msg_2",
+        ));
+
+        expect(events.slice(1, -2)).toEqual([
+            {type: "content_block_start", index: 0, content_block: {type: "text", text: ""}},
+            {type: "content_block_delta", index: 0, delta: {type: "text_delta", text: "Checking."}},
+            {type: "content_block_stop", index: 0},
+            {type: "content_block_start", index: 1, content_block: {type: "tool_use", id: "call_1", name: "get_weather", input: {}}},
+            {type: "content_block_delta", index: 1, delta: {type: "input_json_delta", partial_json: "{\"city\":\"Paris\"}"}},
+            {type: "content_block_stop", index: 1},
+            {type: "content_block_start", index: 2, content_block: {type: "tool_use", id: "call_2", name: "get_time", input: {}}},
+            {type: "content_block_delta", index: 2, delta: {type: "input_json_delta", partial_json: "{}"}},
+            {type: "content_block_stop", index: 2},
+        ]);
+        expect((events[events.length - 2] as Anthropic.MessageDeltaEvent).delta.stop_reason).toBe("tool_use");
+    });
+
+    it("should forward streamed tool call arguments as input_json_delta events", async () => {
+        const events = await collect(mapOpenAIStreamToAnthropicEvents(
+            streamOf(
+                chunk({role: "assistant", tool_calls: [{index: 0, id: "call_1", type: "function", function: {name: "write_file", arguments: ""}}]}),
+                chunk({tool_calls: [{index: 0, function: {arguments: "{\"content\":\"Hel"}}]}),
+                chunk({tool_calls: [{index: 0, function: {arguments: "lo\"}"}}]}),
+                chunk({}, "tool_calls"),
+            ),
+            "msg_3",
+        ));
+
+        expect(events.slice(1, -2)).toEqual([
+            {type: "content_block_start", index: 0, content_block: {type: "tool_use", id: "call_1", name: "write_file", input: {}}},
+            {type: "content_block_delta", index: 0, delta: {type: "input_json_delta", partial_json: "{\"content\":\"Hel"}},
+            {type: "content_block_delta", index: 0, delta: {type: "input_json_delta", partial_json: "lo\"}"}},
+            {type: "content_block_stop", index: 0},
+        ]);
+    });
+
+    it("should emit no content blocks for an empty stream", async () => {
+        const events = await collect(mapOpenAIStreamToAnthropicEvents(streamOf(chunk({}, "stop")), "msg_3"));
+
+        expect(events.map((event) => event.type)).toEqual(["message_start", "message_delta", "message_stop"]);
+    });
+
+    it("should stream thinking as a thinking block with signature_delta", async () => {
+        const events = await collect(mapOpenAIStreamToAnthropicEvents(
+            streamOf(
+                chunk({role: "assistant", thinking: "Let me"}),
+                chunk({thinking: " think", signature: "sig-1"}),
+                chunk({content: "Answer"}),
+                chunk({}, "stop"),
+            ),
+            "msg_4",
+        ));
+
+        expect(events.slice(1, -2)).toEqual([
+            {type: "content_block_start", index: 0, content_block: {type: "thinking", thinking: ""}},
+            {type: "content_block_delta", index: 0, delta: {type: "thinking_delta", thinking: "Let me"}},
+            {type: "content_block_delta", index: 0, delta: {type: "thinking_delta", thinking: " think"}},
+            {type: "content_block_delta", index: 0, delta: {type: "signature_delta", signature: "sig-1"}},
+            {type: "content_block_stop", index: 0},
+            {type: "content_block_start", index: 1, content_block: {type: "text", text: ""}},
+            {type: "content_block_delta", index: 1, delta: {type: "text_delta", text: "Answer"}},
+            {type: "content_block_stop", index: 1},
+        ]);
+    });
+
+    it("should send the signature of the function call part before the thinking block closes", async () => {
+        const toolCall = {index: 0, id: "call_1", type: "function" as const, function: {name: "get_weather", arguments: "{}"}};
+        const events = await collect(mapOpenAIStreamToAnthropicEvents(
+            streamOf(
+                chunk({role: "assistant", thinking: "Checking the weather"}),
+                chunk({tool_calls: [toolCall], signature: "sig-call"}),
+                chunk({}, "tool_calls"),
+            ),
+            "msg_4",
+        ));
+
+        expect(events.slice(1, 6)).toEqual([
+            {type: "content_block_start", index: 0, content_block: {type: "thinking", thinking: ""}},
+            {type: "content_block_delta", index: 0, delta: {type: "thinking_delta", thinking: "Checking the weather"}},
+            {type: "content_block_delta", index: 0, delta: {type: "signature_delta", signature: "sig-call"}},
+            {type: "content_block_stop", index: 0},
+            {type: "content_block_start", index: 1, content_block: {type: "tool_use", id: "call_1", name: "get_weather", input: {}}},
+        ]);
+    });
+
+    it("should hand out a signature arriving after the thinking block closed as redacted thinking", async () => {
+        const toolCall = {index: 0, id: "call_1", type: "function" as const, function: {name: "get_weather", arguments: "{}"}};
+        const events = await collect(mapOpenAIStreamToAnthropicEvents(
+            streamOf(
+                chunk({role: "assistant", thinking: "Checking the weather"}),
+                chunk({content: "Let me check."}),
+                chunk({tool_calls: [toolCall], signature: "sig-call"}),
+                chunk({}, "tool_calls"),
+            ),
+            "msg_4",
+        ));
+
+        expect(events.slice(3, 9)).toEqual([
+            {type: "content_block_stop", index: 0},
+            {type: "content_block_start", index: 1, content_block: {type: "text", text: ""}},
+            {type: "content_block_delta", index: 1, delta: {type: "text_delta", text: "Let me check."}},
+            {type: "content_block_stop", index: 1},
+            {type: "content_block_start", index: 2, content_block: {type: "redacted_thinking", data: "sig-call"}},
+            {type: "content_block_stop", index: 2},
+        ]);
+    });
+
+    it("should report real token usage from the final chunk in message_delta", async () => {
+        const finalChunk = chunk({}, "stop");
+        finalChunk.usage = {
+            prompt_tokens: 120,
+            completion_tokens: 45,
+            total_tokens: 165,
+            prompt_tokens_details: {cached_tokens: 20},
+            completion_tokens_details: {reasoning_tokens: 30},
+        };
+
+        const events = await collect(mapOpenAIStreamToAnthropicEvents(
+            streamOf(chunk({content: "Hi"}), finalChunk),
+            "msg_5",
+        ));
+
+        expect(events[events.length - 2]).toEqual({
+            type: "message_delta",
+            delta: {stop_reason: "end_turn"},
+            usage: {input_tokens: 100, output_tokens: 45, cache_read_input_tokens: 20}
+        });
+    });
+
+    it("should report max_tokens when the stream finished with length", async () => {
+        const events = await collect(mapOpenAIStreamToAnthropicEvents(
+            streamOf(chunk({content: "Trunc"}), chunk({}, "length")),
+            "msg_7",
+        ));
+
+        expect((events[events.length - 2] as Anthropic.MessageDeltaEvent).delta.stop_reason).toBe("max_tokens");
+    });
+
+    it("should report a matched stop sequence as end_turn since Gemini doesn't tell it apart", async () => {
+        const events = await collect(mapOpenAIStreamToAnthropicEvents(
+            streamOf(chunk({content: "1, 2, 3"}), chunk({}, "stop")),
+            "msg_stop",
+        ));
+
+        expect((events[events.length - 2] as Anthropic.MessageDeltaEvent).delta).toEqual({stop_reason: "end_turn"});
+    });
+
+    it("should report a refusal when the stream was stopped by content filters", async () => {
+        const events = await collect(mapOpenAIStreamToAnthropicEvents(
+            streamOf(chunk({content: "Partial"}), chunk({}, "content_filter")),
+            "msg_8",
+        ));
+
+        expect((events[events.length - 2] as Anthropic.MessageDeltaEvent).delta.stop_reason).toBe("refusal");
+    });
+
+    it("should not emit message_start when the stream fails before its first chunk", async () => {
+        const blockedStream: AsyncIterable<OpenAI.StreamChunk> = {
+            [Symbol.asyncIterator]: () => ({
+                next: async () => {
+                    throw new Error("Prompt was blocked by Gemini: SAFETY");
+                },
+            }),
+        };
+
+        const events: Anthropic.MessageStreamEvent[] = [];
+        await expect(async () => {
+            for await (const event of mapOpenAIStreamToAnthropicEvents(blockedStream, "msg_9")) {
+                events.push(event);
+            }
+        }).rejects.toThrow("Prompt was blocked by Gemini: SAFETY");
+        expect(events).toEqual([]);
+    });
+
+    it("should attach Google Search citations to the open text block", async () => {
+        const grounding: Gemini.GroundingMetadata = {
+            groundingChunks: [{web: {uri: "https://example.com/paris", title: "example.com"}}],
+            groundingSupports: [{segment: {startIndex: 0, endIndex: 15, text: "Paris is sunny."}, groundingChunkIndices: [0]}],
+        };
+
+        const events = await collect(mapOpenAIStreamToAnthropicEvents(
+            streamOf(chunk({content: "Paris is sunny."}), chunk({grounding}), chunk({}, "stop")),
+            "msg_6",
+        ));
+
+        expect(events.slice(1, -2)).toEqual([
+            {type: "content_block_start", index: 0, content_block: {type: "text", text: ""}},
+            {type: "content_block_delta", index: 0, delta: {type: "text_delta", text: "Paris is sunny."}},
+            {
+                type: "content_block_delta",
+                index: 0,
+                delta: {
+                    type: "citations_delta",
+                    citation: {
+                        type: "web_search_result_location",
+                        url: "https://example.com/paris",
+                        title: "example.com",
+                        cited_text: "Paris is sunny.",
+                        encrypted_index: ""
+                    }
+                }
+            },
+            {type: "content_block_stop", index: 0},
+        ]);
+    });
+});
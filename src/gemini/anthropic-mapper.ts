@@ -1,11 +1,12 @@
 import * as Anthropic from "../types/anthropic.js";
+import * as OpenAI from "../types/openai.js";
 import * as Gemini from "../types/gemini.js";
 import {DEFAULT_TEMPERATURE} from "../utils/constant.js";
-import {mapModelToGemini, mapJsonSchemaToGemini} from "./mapper.js";
+import {mapModelToGemini, mapJsonSchemaToGemini, mapGroundingMetadataToCitations} from "./mapper.js";
+import {signatureCache} from "./signature-cache.js";
 
 export const mapAnthropicMessagesRequestToGemini = (
-    project: string,
-    request: Anthropic.MessagesRequest,
+    request: Anthropic.MessagesRequest | Anthropic.CountTokensRequest,
 ): Gemini.ChatCompletionRequest => {
     const model = mapModelToGemini(request.model);
     
@@ -13,6 +14,10 @@ export const mapAnthropicMessagesRequestToGemini = (
         contents: mapAnthropicMessagesToGeminiFormat(request.messages),
         generationConfig: {
             temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+            topP: request.top_p,
+            topK: request.top_k,
+            maxOutputTokens: "max_tokens" in request ? request.max_tokens : undefined,
+            stopSequences: request.stop_sequences,
         }
     };
 
@@ -39,27 +44,43 @@ export const mapAnthropicMessagesRequestToGemini = (
         geminiRequest.toolConfig = mapAnthropicToolChoiceToGemini(request.tool_choice);
     }
 
-    // Note: Gemini doesn't support top_p, top_k, stop_sequences in generationConfig
-    // These parameters are ignored for now
+    // Handle extended thinking, includeThoughts makes Gemini return thought parts and signatures
+    if (request.thinking?.type === "enabled") {
+        geminiRequest.generationConfig = {
+            ...geminiRequest.generationConfig,
+            thinkingConfig: {
+                thinkingBudget: request.thinking.budget_tokens,
+                includeThoughts: true,
+            },
+        };
+    }
 
     return {
         model,
-        project,
         request: geminiRequest,
     };
 };
 
 const mapAnthropicMessagesToGeminiFormat = (messages: Anthropic.Message[]): Gemini.ChatMessage[] => {
     const geminiMessages: Gemini.ChatMessage[] = [];
-    
+    // tool_result blocks only carry the tool_use id, Gemini needs the function name
+    const toolNamesById = new Map<string, string>();
+
     for (const message of messages) {
-        geminiMessages.push(mapAnthropicMessageToGeminiFormat(message));
+        if (Array.isArray(message.content)) {
+            for (const content of message.content) {
+                if (content.type === "tool_use") {
+                    toolNamesById.set(content.id, content.name);
+                }
+            }
+        }
+        geminiMessages.push(mapAnthropicMessageToGeminiFormat(message, toolNamesById));
     }
     
     return geminiMessages;
 };
 
-const mapAnthropicMessageToGeminiFormat = (message: Anthropic.Message): Gemini.ChatMessage => {
+const mapAnthropicMessageToGeminiFormat = (message: Anthropic.Message, toolNamesById: Map<string, string>): Gemini.ChatMessage => {
     const role = message.role === "assistant" ? "model" : "user";
     
     if (typeof message.content === "string") {
@@ -71,6 +92,7 @@ const mapAnthropicMessageToGeminiFormat = (message: Anthropic.Message): Gemini.C
 
     // Handle array content
     const parts: Gemini.Part[] = [];
+    const thoughtSignature = findThoughtSignature(message.content);
 
     for (const content of message.content) {
         if (content.type === "text") {
@@ -84,12 +106,29 @@ const mapAnthropicMessageToGeminiFormat = (message: Anthropic.Message): Gemini.C
             }
             parts.push({text});
         } else if (content.type === "image") {
-            const imageContent = content as Anthropic.ImageContent;
+            parts.push(mapAnthropicImageToGemini(content));
+        } else if (content.type === "tool_use") {
             parts.push({
-                inlineData: {
-                    mimeType: imageContent.source.media_type,
-                    data: imageContent.source.data
-                }
+                functionCall: {
+                    name: content.name,
+                    args: content.input ?? {}
+                },
+                thought_signature: thoughtSignature
+            });
+        } else if (content.type === "tool_result") {
+            parts.push(...mapAnthropicToolResultToGemini(content, toolNamesById));
+        } else if (content.type === "thinking") {
+            parts.push({
+                text: content.thinking,
+                thought: true,
+                thought_signature: content.signature
+            });
+        } else if (content.type === "redacted_thinking") {
+            // Signatures arriving after the thinking block closed are handed out as redacted data
+            parts.push({
+                text: "",
+                thought: true,
+                thought_signature: content.data
             });
         }
     }
@@ -97,6 +136,64 @@ const mapAnthropicMessageToGeminiFormat = (message: Anthropic.Message): Gemini.C
     return {role, parts};
 };
 
+const mapAnthropicImageToGemini = (image: Anthropic.ImageContent): Gemini.InlineDataPart => ({
+    inlineData: {
+        mimeType: image.source.media_type,
+        data: image.source.data
+    }
+});
+
+const mapAnthropicToolResultToGemini = (toolResult: Anthropic.ToolResult, toolNamesById: Map<string, string>): Gemini.Part[] => {
+    let text = "";
+    const images: Gemini.InlineDataPart[] = [];
+
+    if (typeof toolResult.content === "string") {
+        text = toolResult.content;
+    } else if (Array.isArray(toolResult.content)) {
+        text = toolResult.content
+            .filter((content) => content.type === "text")
+            .map((content) => content.text)
+            .join("\n");
+        for (const content of toolResult.content) {
+            if (content.type === "image") {
+                images.push(mapAnthropicImageToGemini(content));
+            }
+        }
+    }
+
+    // functionResponse can't hold inline data, so images follow it as separate parts
+    return [
+        {
+            functionResponse: {
+                name: toolNamesById.get(toolResult.tool_use_id) ?? "unknown",
+                response: toolResult.is_error ? {error: text} : {result: text}
+            }
+        },
+        ...images
+    ];
+};
+
+/**
+ * Finds the thought signature for an assistant turn. Like the OpenAI mapper, the signature cached
+ * for a tool_use id takes precedence over the one sent back on a thinking block.
+ */
+const findThoughtSignature = (contents: Anthropic.RequestContent[]): string | undefined => {
+    let thinkingSignature: string | undefined;
+    for (const content of contents) {
+        if (content.type === "tool_use") {
+            const cached = signatureCache.get(content.id);
+            if (cached) {
+                return cached.signature;
+            }
+        } else if (content.type === "thinking" && content.signature) {
+            thinkingSignature = thinkingSignature ?? content.signature;
+        } else if (content.type === "redacted_thinking") {
+            thinkingSignature = thinkingSignature ?? content.data;
+        }
+    }
+    return thinkingSignature;
+};
+
 const convertAnthropicToolToGemini = (tool: Anthropic.Tool): Gemini.FunctionDeclaration => {
     // Use comprehensive JSON schema conversion instead of just removing $schema
     const parameters = mapJsonSchemaToGemini(tool.input_schema);
@@ -143,16 +240,39 @@ const mapAnthropicToolChoiceToGemini = (toolChoice: Anthropic.ToolChoice): Gemin
 
 // Helper function to map Gemini response back to Anthropic format
 export const mapGeminiResponseToAnthropic = (
-    geminiResponse: {content?: string; tool_calls?: Array<{id: string; function: {name: string; arguments: string}}>; usage?: {inputTokens?: number; outputTokens?: number}},
+    geminiResponse: {
+        content?: string;
+        thinking?: string;
+        signature?: string;
+        tool_calls?: Array<{id: string; function: {name: string; arguments: string}}>;
+        grounding?: Gemini.GroundingMetadata;
+        finishReason?: string;
+        usage?: {inputTokens?: number; outputTokens?: number; cachedTokens?: number};
+    },
     model: string,
     requestId: string
 ): Anthropic.MessagesResponse => {
     const content: Anthropic.MessageContent[] = [];
-    if (geminiResponse.content) {
+    if (geminiResponse.thinking) {
         content.push({
-            type: "text",
-            text: geminiResponse.content
+            type: "thinking",
+            thinking: geminiResponse.thinking,
+            signature: geminiResponse.signature ?? ""
         });
+    } else if (geminiResponse.signature) {
+        // Like on streams, a signature without thinking text, e.g. of a function call, comes back as redacted data
+        content.push({type: "redacted_thinking", data: geminiResponse.signature});
+    }
+    const citations = geminiResponse.grounding ? mapGroundingToCitations(geminiResponse.grounding) : [];
+    if (geminiResponse.content || citations.length > 0) {
+        const textBlock: Anthropic.TextContent = {
+            type: "text",
+            text: geminiResponse.content ?? ""
+        };
+        if (citations.length > 0) {
+            textBlock.citations = citations;
+        }
+        content.push(textBlock);
     }
     
     // Handle tool calls if present
@@ -173,10 +293,253 @@ export const mapGeminiResponseToAnthropic = (
         role: "assistant",
         content,
         model,
-        stop_reason: (geminiResponse.tool_calls?.length ?? 0) > 0 ? "tool_use" : "end_turn",
-        usage: {
-            input_tokens: geminiResponse.usage?.inputTokens || 0,
-            output_tokens: geminiResponse.usage?.outputTokens || 0
-        }
+        stop_reason: mapFinishReasonToAnthropic(geminiResponse.finishReason, (geminiResponse.tool_calls?.length ?? 0) > 0),
+        usage: mapUsageToAnthropic(geminiResponse.usage)
+    };
+};
+
+/**
+ * Maps the OpenAI finish reason of the client stream to an Anthropic stop reason.
+ * Gemini strips a matched stop sequence from the output and reports a regular STOP, so the hit
+ * can't be told apart from the natural end of the turn: it is reported as end_turn without stop_sequence.
+ */
+const mapFinishReasonToAnthropic = (finishReason: string | null | undefined, hasToolUse: boolean): Anthropic.StopReason => {
+    if (finishReason === "content_filter") {
+        return "refusal";
+    }
+    if (hasToolUse) {
+        return "tool_use";
+    }
+    return finishReason === "length" ? "max_tokens" : "end_turn";
+};
+
+/**
+ * Maps Google Search grounding to Anthropic web search citations
+ */
+const mapGroundingToCitations = (grounding: Gemini.GroundingMetadata): Anthropic.WebSearchCitation[] =>
+    mapGroundingMetadataToCitations(grounding).map((citation) => ({
+        type: "web_search_result_location",
+        url: citation.url,
+        title: citation.title,
+        cited_text: citation.text,
+        // Gemini has no encrypted search index to hand back
+        encrypted_index: ""
+    }));
+
+/**
+ * Anthropic reports cache reads separately from input_tokens, Gemini includes them in the prompt count
+ */
+const mapUsageToAnthropic = (usage?: {inputTokens?: number; outputTokens?: number; cachedTokens?: number}): Anthropic.Usage => {
+    const cachedTokens = usage?.cachedTokens;
+    const result: Anthropic.Usage = {
+        input_tokens: (usage?.inputTokens || 0) - (cachedTokens ?? 0),
+        output_tokens: usage?.outputTokens || 0
     };
+    if (cachedTokens !== undefined) {
+        result.cache_read_input_tokens = cachedTokens;
+    }
+    return result;
 };
+
+/**
+ * Translates the OpenAI-style chunks produced by GeminiApiClient.streamContent into Anthropic
+ * messages stream events. Text runs and every tool call get their own content block.
+ * Gemini only reports usage at the end, so message_start carries the caller's input token estimate.
+ * message_start waits for the first chunk, so errors like a blocked prompt surface before any event,
+ * and reports the model of that chunk, which differs from the requested one after an auto switch.
+ */
+export async function* mapOpenAIStreamToAnthropicEvents(
+    stream: AsyncIterable<OpenAI.StreamChunk>,
+    requestId: string,
+    estimatedInputTokens: number = 0,
+): AsyncGenerator<Anthropic.MessageStreamEvent> {
+    const messageStart: Anthropic.MessageStartEvent = {
+        type: "message_start",
+        message: {
+            id: requestId,
+            type: "message",
+            role: "assistant",
+            content: [],
+            model: "",
+            stop_reason: "end_turn",
+            usage: {
+                input_tokens: estimatedInputTokens,
+                output_tokens: 0
+            }
+        }
+    };
+
+    let started = false;
+    let blockIndex = -1;
+    let openBlockType: "thinking" | "text" | "tool_use" | null = null;
+    let hasToolUse = false;
+    let totalContentLength = 0;
+    let usage: OpenAI.UsageData | undefined;
+    let finishReason: string | null = null;
+    let thinkingSignature: string | undefined;
+    let signatureSent = false;
+
+    const stopOpenBlock = (): Anthropic.MessageStreamEvent[] => {
+        if (openBlockType === null) {
+            return [];
+        }
+        const events: Anthropic.MessageStreamEvent[] = [];
+        // Anthropic sends the signature once, right before the thinking block closes
+        if (openBlockType === "thinking" && thinkingSignature) {
+            events.push({
+                type: "content_block_delta",
+                index: blockIndex,
+                delta: {type: "signature_delta", signature: thinkingSignature}
+            });
+            signatureSent = true;
+        }
+        openBlockType = null;
+        events.push({type: "content_block_stop", index: blockIndex});
+        return events;
+    };
+
+    for await (const chunk of stream) {
+        if (!started) {
+            started = true;
+            messageStart.message.model = chunk.model;
+            yield messageStart;
+        }
+        if (chunk.usage) {
+            usage = chunk.usage;
+        }
+        if (chunk.choices?.[0]?.finish_reason) {
+            finishReason = chunk.choices[0].finish_reason;
+        }
+
+        const delta = chunk.choices?.[0]?.delta;
+        if (!delta) {
+            continue;
+        }
+
+        if (delta.thinking) {
+            if (openBlockType !== "thinking") {
+                yield* stopOpenBlock();
+                blockIndex++;
+                openBlockType = "thinking";
+                yield {
+                    type: "content_block_start",
+                    index: blockIndex,
+                    content_block: {type: "thinking", thinking: ""}
+                };
+            }
+            totalContentLength += delta.thinking.length;
+            yield {
+                type: "content_block_delta",
+                index: blockIndex,
+                delta: {type: "thinking_delta", thinking: delta.thinking}
+            };
+        }
+
+        if (delta.content) {
+            if (openBlockType !== "text") {
+                yield* stopOpenBlock();
+                blockIndex++;
+                openBlockType = "text";
+                yield {
+                    type: "content_block_start",
+                    index: blockIndex,
+                    content_block: {type: "text", text: ""}
+                };
+            }
+            totalContentLength += delta.content.length;
+            yield {
+                type: "content_block_delta",
+                index: blockIndex,
+                delta: {type: "text_delta", text: delta.content}
+            };
+        }
+
+        // Grounding arrives after the grounded text, its citations are attached to the text block
+        const citations = delta.grounding ? mapGroundingToCitations(delta.grounding) : [];
+        if (citations.length > 0) {
+            if (openBlockType !== "text") {
+                yield* stopOpenBlock();
+                blockIndex++;
+                openBlockType = "text";
+                yield {
+                    type: "content_block_start",
+                    index: blockIndex,
+                    content_block: {type: "text", text: ""}
+                };
+            }
+            for (const citation of citations) {
+                yield {
+                    type: "content_block_delta",
+                    index: blockIndex,
+                    delta: {type: "citations_delta", citation}
+                };
+            }
+        }
+
+        if (delta.signature) {
+            thinkingSignature = delta.signature;
+            // Gemini often signs the turn on the function call, when text may have closed the thinking block.
+            // A closed block can't take the signature anymore, so it gets a redacted_thinking block of its own.
+            if (openBlockType !== "thinking" && !signatureSent) {
+                yield* stopOpenBlock();
+                blockIndex++;
+                yield {
+                    type: "content_block_start",
+                    index: blockIndex,
+                    content_block: {type: "redacted_thinking", data: thinkingSignature}
+                };
+                yield {type: "content_block_stop", index: blockIndex};
+                signatureSent = true;
+            }
+        }
+
+        for (const toolCall of delta.tool_calls ?? []) {
+            // A tool call without an id continues the arguments of the open tool_use block
+            if (toolCall.id || openBlockType !== "tool_use") {
+                yield* stopOpenBlock();
+                blockIndex++;
+                openBlockType = "tool_use";
+                hasToolUse = true;
+                yield {
+                    type: "content_block_start",
+                    index: blockIndex,
+                    content_block: {
+                        type: "tool_use",
+                        id: toolCall.id ?? "",
+                        name: toolCall.function.name ?? "",
+                        input: {}
+                    }
+                };
+            }
+            if (toolCall.function.arguments) {
+                totalContentLength += toolCall.function.arguments.length;
+                yield {
+                    type: "content_block_delta",
+                    index: blockIndex,
+                    delta: {type: "input_json_delta", partial_json: toolCall.function.arguments}
+                };
+            }
+        }
+    }
+
+    if (!started) {
+        yield messageStart;
+    }
+    yield* stopOpenBlock();
+
+    yield {
+        type: "message_delta",
+        delta: {
+            stop_reason: mapFinishReasonToAnthropic(finishReason, hasToolUse)
+        },
+        usage: usage ? mapUsageToAnthropic({
+            inputTokens: usage.prompt_tokens,
+            outputTokens: usage.completion_tokens,
+            cachedTokens: usage.prompt_tokens_details?.cached_tokens,
+        }) : {
+            output_tokens: Math.ceil(totalContentLength / 4) // Rough token estimate when Gemini sends no usage
+        }
+    };
+
+    yield {type: "message_stop"};
+}
@@ -0,0 +1,185 @@
+import {describe, it, expect, vi, afterEach} from "vitest";
+import {InvalidArgumentError} from "@commander-js/extra-typings";
+import {AutoModelSwitchingHelper, parseFallbackChain} from "./auto-model-switching.js";
+
+class RateLimitError extends Error {
+    constructor(public readonly statusCode: number, public readonly retryAfterMs?: number) {
+        super(`rate limited with ${statusCode}`);
+    }
+}
+
+const createHelper = (probe = false) => {
+    const helper = new AutoModelSwitchingHelper();
+    helper.configure({chains: {pro: ["flash", "lite"], flash: ["lite"]}, cooldownMinutes: 10, probe});
+    return helper;
+};
+
+/**
+ * Non-streaming retry function answering with the model name, rate limited for the given models
+ */
+const answerUnless = (rateLimited: string[], calls: string[] = []) => async (model: string) => {
+    calls.push(model);
+    if (rateLimited.includes(model)) {
+        throw new RateLimitError(429);
+    }
+    return {model};
+};
+
+describe("parseFallbackChain", () => {
+    it("should parse a model and its fallbacks", () => {
+        expect(parseFallbackChain("pro=flash, lite")).toEqual({pro: ["flash", "lite"]});
+        expect(parseFallbackChain("flash=lite", {pro: ["flash"]})).toEqual({pro: ["flash"], flash: ["lite"]});
+    });
+
+    it("should allow disabling the fallbacks of a model", () => {
+        expect(parseFallbackChain("pro=")).toEqual({pro: []});
+    });
+
+    it("should reject a value without fallbacks", () => {
+        expect(() => parseFallbackChain("pro")).toThrow(InvalidArgumentError);
+    });
+});
+
+describe("AutoModelSwitchingHelper", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should walk the fallback chain until a model answers", async () => {
+        const helper = createHelper();
+        const calls: string[] = [];
+
+        const result = await helper.handleNonStreamingFallback({model: "pro"}, answerUnless(["pro", "flash"], calls));
+
+        expect(calls).toEqual(["pro", "flash", "lite"]);
+        expect(result).toEqual({model: "lite", _autoSwitchNotification: "<429> You are downgraded from pro to lite because of rate limits"});
+    });
+
+    it("should skip models in cooldown for later requests", async () => {
+        const helper = createHelper();
+        await helper.handleNonStreamingFallback({model: "pro"}, answerUnless(["pro"]));
+        const calls: string[] = [];
+
+        await helper.handleNonStreamingFallback({model: "pro"}, answerUnless([], calls));
+
+        expect(calls).toEqual(["flash"]);
+        expect(helper.getBestAvailableModel("pro")).toBe("flash");
+    });
+
+    it("should rethrow the last rate limit error when every model is rate limited", async () => {
+        const helper = createHelper();
+        await expect(helper.handleNonStreamingFallback({model: "pro"}, answerUnless(["pro", "flash", "lite"]))).rejects.toThrow(RateLimitError);
+    });
+
+    it("should not switch models on other errors", async () => {
+        const helper = createHelper();
+        const calls: string[] = [];
+        const failing = async (model: string) => {
+            calls.push(model);
+            throw new RateLimitError(400);
+        };
+
+        await expect(helper.handleNonStreamingFallback({model: "pro"}, failing)).rejects.toThrow(RateLimitError);
+        expect(calls).toEqual(["pro"]);
+    });
+
+    it("should honor the delay upstream asked for", async () => {
+        vi.useFakeTimers();
+        const helper = createHelper();
+        await helper.handleNonStreamingFallback({model: "pro"}, async (model: string) => {
+            if (model === "pro") {
+                throw new RateLimitError(429, 30000);
+            }
+            return {model};
+        });
+
+        expect(helper.isModelInCooldown("pro")).toBe(true);
+        vi.advanceTimersByTime(30001);
+        expect(helper.isModelInCooldown("pro")).toBe(false);
+    });
+
+    it("should notify the upgrade once the preferred model answers again", async () => {
+        vi.useFakeTimers();
+        const helper = createHelper();
+        await helper.handleNonStreamingFallback({model: "pro"}, answerUnless(["pro"]));
+        vi.advanceTimersByTime(10 * 60 * 1000 + 1);
+
+        const recovered = await helper.handleNonStreamingFallback({model: "pro"}, answerUnless([]));
+        const next = await helper.handleNonStreamingFallback({model: "pro"}, answerUnless([]));
+
+        expect(recovered).toEqual({model: "pro", _autoSwitchNotification: "Model upgraded: Now using pro (rate limits cleared)"});
+        expect(next).toEqual({model: "pro"});
+    });
+
+    it("should let a single probe request through after the cooldown", async () => {
+        vi.useFakeTimers();
+        const helper = createHelper(true);
+        await helper.handleNonStreamingFallback({model: "pro"}, answerUnless(["pro"]));
+        vi.advanceTimersByTime(10 * 60 * 1000 + 1);
+
+        let releaseProbe: () => void = () => undefined;
+        const calls: string[] = [];
+        const probe = helper.handleNonStreamingFallback({model: "pro"}, async (model: string) => {
+            calls.push(model);
+            await new Promise<void>((resolve) => {
+                releaseProbe = resolve;
+            });
+            return {model};
+        });
+        const concurrent = await helper.handleNonStreamingFallback({model: "pro"}, answerUnless([], calls));
+        releaseProbe();
+
+        expect(concurrent).toEqual({model: "flash", _autoSwitchNotification: "<429> You are downgraded from pro to flash because of rate limits"});
+        expect(await probe).toEqual({model: "pro", _autoSwitchNotification: "Model upgraded: Now using pro (rate limits cleared)"});
+        expect(calls).toEqual(["pro", "flash"]);
+    });
+
+    it("should switch streams only before the first chunk", async () => {
+        const helper = createHelper();
+        async function* stream(model: string) {
+            if (model === "pro") {
+                throw new RateLimitError(503);
+            }
+            yield `${model}-1`;
+            throw new RateLimitError(429);
+        }
+
+        const chunks: unknown[] = [];
+        await expect(async () => {
+            for await (const chunk of helper.handleStreamingFallback({model: "pro"}, stream)) {
+                chunks.push(chunk);
+            }
+        }).rejects.toThrow(RateLimitError);
+
+        expect(chunks).toEqual(["flash-1"]);
+        expect(helper.isModelInCooldown("pro")).toBe(true);
+        expect(helper.isModelInCooldown("flash")).toBe(false);
+    });
+
+    it("should add the switch notification to the first chunk of a stream", async () => {
+        const helper = createHelper();
+        async function* stream(model: string) {
+            if (model === "pro") {
+                throw new RateLimitError(429);
+            }
+            yield {model};
+            yield {model};
+        }
+
+        const chunks: unknown[] = [];
+        for await (const chunk of helper.handleStreamingFallback({model: "pro"}, stream)) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks).toEqual([
+            {model: "flash", _autoSwitchNotification: "<429> You are downgraded from pro to flash because of rate limits"},
+            {model: "flash"},
+        ]);
+    });
+
+    it("should use the fallbacks of the model catalog without a configured chain", () => {
+        const helper = new AutoModelSwitchingHelper();
+        expect(helper.getFallbackChain("gemini-3-pro-preview")).toEqual(["gemini-2.5-pro", "gemini-2.5-flash", "gemini-2.5-flash-lite"]);
+        expect(helper.getFallbackChain("gemini-2.5-flash-lite")).toEqual([]);
+    });
+});
@@ -1,8 +1,9 @@
 import {
     RATE_LIMIT_STATUS_CODES,
-    AUTO_SWITCH_MODEL_MAP,
     DEFAULT_COOLDOWN_MINUTES,
 } from "../utils/constant.js";
+import {modelRegistry} from "./model-registry.js";
+import {InvalidArgumentError} from "@commander-js/extra-typings";
 import {getLogger} from "../utils/logger.js";
 import chalk from "chalk";
 
@@ -24,16 +25,44 @@ type NonStreamingRetryFunction = (model: string, data: RetryableRequestData) =>
  */
 type StreamingRetryFunction = (model: string, data: RetryableRequestData) => AsyncIterable<unknown>;
 
+/**
+ * Options of the automatic model switching
+ */
+export interface AutoModelSwitchingOptions {
+    // Fallback models per model in the order they are tried, overrides the fallbacks of the model catalog
+    chains: Record<string, string[]>;
+    // Cooldown of a rate limited model when upstream does not say when to retry
+    cooldownMinutes: number;
+    // After a cooldown, send a single probe request to the model before switching all requests back
+    probe: boolean;
+}
+
 /**
  * Interface representing the cooldown state for rate-limited models
  */
 interface ModelCooldownState {
     [modelId: string]: {
         rateLimitedAt: number;    // Timestamp when rate limited
+        cooldownUntil: number;    // Timestamp when the model may be used again
         statusCodes: number[];    // Which status codes triggered it
+        probing: boolean;         // A probe request is in flight after the cooldown expired
     };
 }
 
+/**
+ * Parses the fallback chain CLI option, e.g. gemini-2.5-pro=gemini-2.5-flash,gemini-2.5-flash-lite
+ * @param {string} value - Model and its comma separated fallback models
+ * @param {Record<string, string[]>} chains - Chains parsed from previous occurrences of the option
+ * @returns {Record<string, string[]>} Chains including the parsed one
+ */
+export const parseFallbackChain = (value: string, chains: Record<string, string[]> = {}): Record<string, string[]> => {
+    const [model, fallbacks] = value.split("=");
+    if (!model || fallbacks === undefined) {
+        throw new InvalidArgumentError("Expected <model>=<fallback>[,<fallback>...].");
+    }
+    return {...chains, [model.trim()]: fallbacks.split(",").map((fallback) => fallback.trim()).filter(Boolean)};
+};
+
 /**
  * Helper class for automatic model switching when rate limits are encountered
  * Provides fallback mechanism with cooldown management to avoid repeated rate limit hits
@@ -41,6 +70,7 @@ interface ModelCooldownState {
 export class AutoModelSwitchingHelper {
     private static instance: AutoModelSwitchingHelper;
     private cooldownState: ModelCooldownState = {};
+    private options: AutoModelSwitchingOptions = {chains: {}, cooldownMinutes: DEFAULT_COOLDOWN_MINUTES, probe: false};
     private logger = getLogger("AUTO-SWITCH", chalk.yellow);
 
     /**
@@ -54,12 +84,20 @@ export class AutoModelSwitchingHelper {
     }
 
     /**
-   * Get the fallback model for a given model
-   * @param {string} model - Current model that hit rate limits
-   * @returns {string | null} Fallback model or null if no fallback available
+   * Configure fallback chains, cooldown and probing
+   * @param {Partial<AutoModelSwitchingOptions>} options - Options to change
+   */
+    public configure(options: Partial<AutoModelSwitchingOptions>): void {
+        this.options = {...this.options, ...options};
+    }
+
+    /**
+   * Get the fallback chain for a given model
+   * @param {string} model - Model to get the fallback models for
+   * @returns {string[]} Fallback models in the order they are tried
    */
-    public getFallbackModel(model: string): string | null {
-        return AUTO_SWITCH_MODEL_MAP[model as keyof typeof AUTO_SWITCH_MODEL_MAP] || null;
+    public getFallbackChain(model: string): string[] {
+        return this.options.chains[model] ?? modelRegistry.getFallbacks(model);
     }
 
     /**
@@ -80,16 +118,6 @@ export class AutoModelSwitchingHelper {
         return (RATE_LIMIT_STATUS_CODES as readonly number[]).includes(statusCode);
     }
 
-    /**
-   * Determine if fallback should be attempted for a model
-   * @param {string} model - Model to check for fallback availability
-   * @returns {boolean} True if fallback should be attempted
-   */
-    public shouldAttemptFallback(model: string): boolean {
-        if (this.isModelInCooldown(model)) return false;
-        return this.getFallbackModel(model) !== null;
-    }
-
     /**
    * Create a downgrade notification message with status codes
    * @param {string} fromModel - Original model that was rate limited
@@ -114,22 +142,29 @@ export class AutoModelSwitchingHelper {
    * Add a model to cooldown state when it hits rate limits
    * @param {string} model - Model that encountered rate limits
    * @param {number} statusCode - HTTP status code that triggered rate limiting
+   * @param {number} retryAfterMs - Delay upstream asked for, the configured cooldown when unknown
    */
-    public addRateLimitedModel(model: string, statusCode: number): void {
+    public addRateLimitedModel(model: string, statusCode: number, retryAfterMs?: number): void {
         const now = Date.now();
-        if (!this.cooldownState[model]) {
+        const cooldownUntil = now + (retryAfterMs ?? this.options.cooldownMinutes * 60 * 1000);
+        const modelState = this.cooldownState[model];
+        if (!modelState) {
             this.cooldownState[model] = {
                 rateLimitedAt: now,
+                cooldownUntil,
                 statusCodes: [statusCode],
+                probing: false,
             };
         } else {
-            this.cooldownState[model].rateLimitedAt = now;
-            if (!this.cooldownState[model].statusCodes.includes(statusCode)) {
-                this.cooldownState[model].statusCodes.push(statusCode);
+            modelState.rateLimitedAt = now;
+            modelState.cooldownUntil = cooldownUntil;
+            modelState.probing = false;
+            if (!modelState.statusCodes.includes(statusCode)) {
+                modelState.statusCodes.push(statusCode);
             }
         }
     
-        this.logger.info(`Model ${model} added to cooldown due to status code ${statusCode}`);
+        this.logger.info(`Model ${model} added to cooldown until ${new Date(cooldownUntil).toISOString()} due to status code ${statusCode}`);
     }
 
     /**
@@ -139,18 +174,7 @@ export class AutoModelSwitchingHelper {
    */
     public isModelInCooldown(model: string): boolean {
         const modelState = this.cooldownState[model];
-        if (!modelState) return false;
-
-        const now = Date.now();
-        const cooldownDuration = DEFAULT_COOLDOWN_MINUTES * 60 * 1000; // Convert to milliseconds
-        const isInCooldown = (now - modelState.rateLimitedAt) < cooldownDuration;
-
-        // Clean up expired cooldown
-        if (!isInCooldown) {
-            delete this.cooldownState[model];
-        }
-
-        return isInCooldown;
+        return modelState !== undefined && Date.now() < modelState.cooldownUntil;
     }
 
     /**
@@ -159,117 +183,148 @@ export class AutoModelSwitchingHelper {
    * @returns {string} Best available model that's not in cooldown
    */
     public getBestAvailableModel(preferredModel: string): string {
-        let currentModel = preferredModel;
-    
-        // Walk through the fallback chain to find first available model
-        while (currentModel && this.isModelInCooldown(currentModel)) {
-            const fallback = this.getFallbackModel(currentModel);
-            if (!fallback) break;
-            currentModel = fallback;
-        }
-
-        return currentModel || preferredModel; // Fallback to original if all are in cooldown
+        const available = [preferredModel, ...this.getFallbackChain(preferredModel)].find((model) => !this.isModelInCooldown(model));
+        return available ?? preferredModel; // Fallback to original if all are in cooldown
     }
 
     /**
-   * Handle fallback for non-streaming requests
-   * @param {string} originalModel - The model that encountered rate limits
-   * @param {number} statusCode - HTTP status code from the rate limit error
-   * @param {any} requestData - Original request data to retry with fallback model
-   * @param {Function} retryFunction - Function to call for retry with new model
-   * @returns {Promise<any>} Result from the retry attempt
+   * Handle fallback for non-streaming requests. Models of the fallback chain that are not in
+   * cooldown are tried in order until one is not rate limited.
+   * @param {RetryableRequestData} requestData - Request data with the preferred model
+   * @param {Function} retryFunction - Function to call for each model
+   * @returns {Promise<unknown>} Result of the first model that answered, with the switch notification
    */
     public async handleNonStreamingFallback(
-        originalModel: string,
-        statusCode: number,
         requestData: RetryableRequestData,
         retryFunction: NonStreamingRetryFunction
     ): Promise<unknown> {
-        if (!this.shouldAttemptFallback(originalModel)) {
-            throw new Error(`No fallback available for model ${originalModel}`);
-        }
-
-        // Add original model to cooldown
-        this.addRateLimitedModel(originalModel, statusCode);
-
-        // Get fallback model
-        const fallbackModel = this.getFallbackModel(originalModel);
-        if (!fallbackModel) {
-            throw new Error(`No fallback model found for ${originalModel}`);
-        }
-
-        this.logger.info(`Attempting fallback from ${originalModel} to ${fallbackModel} due to rate limit`);
-
-        // Create downgrade notification
-        const notification = this.createDowngradeNotification(originalModel, fallbackModel, statusCode);
-    
-        // Update request data with fallback model
-        const updatedData = {...requestData, model: fallbackModel};
-
-        try {
-            const result = await retryFunction(fallbackModel, updatedData);
-      
-            // Add notification to response if it's a non-streaming response
-            if (result && typeof result === "object") {
-                (result as unknown as {_autoSwitchNotification?: string})._autoSwitchNotification = notification;
+        const preferredModel = requestData.model;
+        let lastError: unknown;
+
+        for (const model of this.getCandidateModels(preferredModel)) {
+            try {
+                const result = await retryFunction(model, {...requestData, model});
+                const notification = this.recordSuccess(preferredModel, model);
+                // Add notification to response if it's a non-streaming response
+                if (notification && result && typeof result === "object") {
+                    (result as unknown as {_autoSwitchNotification?: string})._autoSwitchNotification = notification;
+                }
+                return result;
+            } catch (error) {
+                if (!this.recordFailure(model, error)) {
+                    throw error;
+                }
+                lastError = error;
             }
-
-            return result;
-        } catch (error) {
-            this.logger.error(`Fallback to ${fallbackModel} also failed`, error);
-            throw error;
         }
+        throw lastError;
     }
 
     /**
-   * Handle fallback for streaming requests
-   * @param {string} originalModel - The model that encountered rate limits
-   * @param {number} statusCode - HTTP status code from the rate limit error
-   * @param {any} requestData - Original request data to retry with fallback model
-   * @param {Function} retryFunction - Function to call for retry with new model
-   * @param {string} streamFormat - Format for streaming ('openai' or 'anthropic')
-   * @returns {AsyncIterable<any>} Stream from the retry attempt with notification
+   * Handle fallback for streaming requests. Models of the fallback chain that are not in cooldown
+   * are tried in order until one is not rate limited, a stream is never switched once it started.
+   * @param {RetryableRequestData} requestData - Request data with the preferred model
+   * @param {Function} retryFunction - Function to call for each model
+   * @returns {AsyncIterable<unknown>} Stream of the first model that answered, the switch notification is added to its first chunk
    */
     public async* handleStreamingFallback(
-        originalModel: string,
-        statusCode: number,
         requestData: RetryableRequestData,
-        retryFunction: StreamingRetryFunction,
-        _streamFormat: "openai" | "anthropic" = "openai"
+        retryFunction: StreamingRetryFunction
     ): AsyncIterable<unknown> {
-        if (!this.shouldAttemptFallback(originalModel)) {
-            throw new Error(`No fallback available for model ${originalModel}`);
+        const preferredModel = requestData.model;
+        let lastError: unknown;
+
+        for (const model of this.getCandidateModels(preferredModel)) {
+            let started = false;
+            try {
+                for await (const chunk of retryFunction(model, {...requestData, model})) {
+                    if (!started) {
+                        started = true;
+                        const notification = this.recordSuccess(preferredModel, model);
+                        if (notification) {
+                            this.logger.info(`🔄 ${notification}`);
+                            if (chunk && typeof chunk === "object") {
+                                (chunk as unknown as {_autoSwitchNotification?: string})._autoSwitchNotification = notification;
+                            }
+                        }
+                    }
+                    yield chunk;
+                }
+                return;
+            } catch (error) {
+                if (started || !this.recordFailure(model, error)) {
+                    throw error;
+                }
+                lastError = error;
+            }
         }
+        throw lastError;
+    }
 
-        // Add original model to cooldown
-        this.addRateLimitedModel(originalModel, statusCode);
-
-        // Get fallback model
-        const fallbackModel = this.getFallbackModel(originalModel);
-        if (!fallbackModel) {
-            throw new Error(`No fallback model found for ${originalModel}`);
+    /**
+   * Models to try for a request in order: the preferred model and its fallback chain without the
+   * models in cooldown. After a cooldown expired, probe mode lets only one request through at a time.
+   * @param {string} preferredModel - Model of the request
+   * @returns {string[]} Models to try, the preferred model alone when every model is in cooldown
+   */
+    private getCandidateModels(preferredModel: string): string[] {
+        const candidates = [preferredModel, ...this.getFallbackChain(preferredModel)].filter((model) => {
+            const modelState = this.cooldownState[model];
+            if (!modelState) {
+                return true;
+            }
+            if (Date.now() < modelState.cooldownUntil) {
+                return false;
+            }
+            return !this.options.probe || !modelState.probing;
+        });
+        if (candidates.length === 0) {
+            return [preferredModel];
         }
 
-        this.logger.info(`Attempting streaming fallback from ${originalModel} to ${fallbackModel} due to rate limit`);
-
-        // Create downgrade notification
-        const notification = this.createDowngradeNotification(originalModel, fallbackModel, statusCode);
-    
-        // Update request data with fallback model
-        const updatedData = {...requestData, model: fallbackModel};
+        // Cooled down models are probed when they come first, later ones are only tried after a failure
+        const probed = this.cooldownState[candidates[0]];
+        if (probed && this.options.probe) {
+            probed.probing = true;
+            this.logger.info(`Probing ${candidates[0]} after its cooldown`);
+        }
+        return candidates;
+    }
 
-        try {
-            // Log notification to console only (don't inject into stream)
-            this.logger.info(`🔄 ${notification}`);
+    /**
+   * Record that a model answered, clearing an expired cooldown
+   * @param {string} preferredModel - Model of the request
+   * @param {string} model - Model that answered
+   * @returns {string | undefined} Downgrade or upgrade notification when the model switched
+   */
+    private recordSuccess(preferredModel: string, model: string): string | undefined {
+        let notification: string | undefined;
+        if (model !== preferredModel) {
+            const statusCodes = this.cooldownState[preferredModel]?.statusCodes ?? [];
+            notification = this.createDowngradeNotification(preferredModel, model, statusCodes[statusCodes.length - 1] ?? 429);
+        } else if (this.cooldownState[model]) {
+            notification = this.createUpgradeNotification(model);
+        }
+        delete this.cooldownState[model];
+        return notification;
+    }
 
-            // Yield results from fallback model
-            const stream = retryFunction(fallbackModel, updatedData);
-            for await (const chunk of stream) {
-                yield chunk;
+    /**
+   * Record a failed attempt, rate limited models are put in cooldown
+   * @param {string} model - Model that failed
+   * @param {unknown} error - Error of the attempt
+   * @returns {boolean} True if the next model of the chain should be tried
+   */
+    private recordFailure(model: string, error: unknown): boolean {
+        const {statusCode, retryAfterMs} = (error ?? {}) as {statusCode?: unknown; retryAfterMs?: number};
+        if (typeof statusCode !== "number" || !this.isRateLimitStatus(statusCode)) {
+            const modelState = this.cooldownState[model];
+            if (modelState) {
+                modelState.probing = false;
             }
-        } catch (error) {
-            this.logger.error(`Streaming fallback to ${fallbackModel} also failed`, error);
-            throw error;
+            return false;
         }
+        this.addRateLimitedModel(model, statusCode, retryAfterMs);
+        return true;
     }
 }
@@ -0,0 +1,722 @@
+import {describe, it, expect, vi, afterEach, beforeEach} from "vitest";
+import http from "http";
+import type {AddressInfo} from "net";
+import {OAuth2Client} from "google-auth-library";
+import {GeminiApiClient} from "./client.js";
+import * as Gemini from "../types/gemini.js";
+import * as OpenAI from "../types/openai.js";
+import {signatureCache} from "./signature-cache.js";
+import {UpstreamTimeoutError, type RetryOptions} from "./retry.js";
+import {RequestCancelledError} from "../utils/cancellation.js";
+import {AccountPool} from "./account-pool.js";
+import type {GoogleRpcStatus} from "./errors.js";
+
+const authClient = {
+    getAccessToken: async () => ({token: "test-token"}),
+    credentials: {},
+} as unknown as OAuth2Client;
+
+const accountPool = new AccountPool([{name: "test", authClient}]);
+
+const createRequest = (prompt: string): Gemini.ChatCompletionRequest => ({
+    model: "gemini-2.5-flash",
+    request: {contents: [{role: "user", parts: [{text: prompt}]}]},
+});
+
+/**
+ * Code Assist SSE response that sends one event per delay, so concurrent streams interleave
+ */
+const createSSEResponse = (events: Gemini.GenerateContentResponse[], delayMs: number): Response => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            for (const event of events) {
+                await new Promise((resolve) => setTimeout(resolve, delayMs));
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify({response: event})}\n\n`));
+            }
+            controller.close();
+        },
+    });
+    return new Response(body, {status: 200, headers: {"Content-Type": "text/event-stream"}});
+};
+
+const textEvent = (text: string, finishReason?: Gemini.FinishReason): Gemini.GenerateContentResponse => ({
+    candidates: [{content: {parts: [{text}]}, finishReason}],
+});
+
+/**
+ * Stubs fetch with a scripted response per prompt
+ */
+const stubBackend = (scripts: Record<string, {events: Gemini.GenerateContentResponse[]; delayMs: number}>) => {
+    vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+        const body = JSON.parse(init.body as string) as Gemini.ChatCompletionRequest;
+        const prompt = (body.request.contents[0].parts[0] as Gemini.TextPart).text;
+        const {events, delayMs} = scripts[prompt];
+        return createSSEResponse(events, delayMs);
+    }));
+};
+
+// streamGenerateContent response recorded from Code Assist for a turn with two parallel function calls
+const RECORDED_PARALLEL_CALLS = [
+    {response: {candidates: [{content: {role: "model", parts: [{text: "Checking both cities.", thought: true}]}}], usageMetadata: {promptTokenCount: 112, totalTokenCount: 112}, modelVersion: "gemini-2.5-flash"}},
+    {response: {candidates: [{content: {role: "model", parts: [{functionCall: {name: "get_weather", args: {city: "Paris"}}, thoughtSignature: "sig-parallel"}, {functionCall: {name: "get_weather", args: {city: "Rome"}}}]}, finishReason: "STOP"}], usageMetadata: {promptTokenCount: 112, candidatesTokenCount: 24, totalTokenCount: 161, thoughtsTokenCount: 25}, modelVersion: "gemini-2.5-flash"}},
+].map((event) => `data: ${JSON.stringify(event)}\r\n\r\n`).join("");
+
+const stubRecordedResponse = (recorded: string) => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(recorded, {status: 200, headers: {"Content-Type": "text/event-stream"}})));
+};
+
+const collect = async (stream: AsyncIterable<OpenAI.StreamChunk>): Promise<OpenAI.StreamChunk[]> => {
+    const chunks: OpenAI.StreamChunk[] = [];
+    for await (const chunk of stream) {
+        chunks.push(chunk);
+    }
+    return chunks;
+};
+
+const deltas = (chunks: OpenAI.StreamChunk[]) => chunks.flatMap((chunk) => chunk.choices.map((choice) => choice.delta));
+
+const contentOf = (chunks: OpenAI.StreamChunk[]) => deltas(chunks).map((delta) => delta.content ?? "").join("");
+
+describe("GeminiApiClient concurrent streams", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("should give every stream its own completion id", async () => {
+        stubBackend({
+            first: {events: [textEvent("One"), textEvent(" two", "STOP")], delayMs: 5},
+            second: {events: [textEvent("Three"), textEvent(" four", "STOP")], delayMs: 3},
+        });
+        const client = new GeminiApiClient(accountPool, "test-project", true);
+
+        const [first, second] = await Promise.all([
+            collect(client.streamContent(createRequest("first"))),
+            collect(client.streamContent(createRequest("second"))),
+        ]);
+
+        expect(new Set(first.map((chunk) => chunk.id)).size).toBe(1);
+        expect(new Set(second.map((chunk) => chunk.id)).size).toBe(1);
+        expect(first[0].id).not.toBe(second[0].id);
+    });
+
+    it("should emit the assistant role once at the start of every stream", async () => {
+        stubBackend({
+            first: {events: [textEvent("A"), textEvent("B"), textEvent("C", "STOP")], delayMs: 4},
+            second: {events: [textEvent("D"), textEvent("E", "STOP")], delayMs: 2},
+        });
+        const client = new GeminiApiClient(accountPool, "test-project", true);
+
+        const streams = await Promise.all([
+            collect(client.streamContent(createRequest("first"))),
+            collect(client.streamContent(createRequest("second"))),
+        ]);
+
+        for (const chunks of streams) {
+            const roles = deltas(chunks).filter((delta) => delta.role !== undefined);
+            expect(roles).toHaveLength(1);
+            expect(chunks[0].choices[0].delta.role).toBe("assistant");
+        }
+    });
+
+    it("should keep content and thinking tag buffers of concurrent streams apart", async () => {
+        stubBackend({
+            first: {events: [textEvent("Hi <thin"), textEvent("king>secret</thinking> there", "STOP")], delayMs: 6},
+            second: {events: [textEvent("plain"), textEvent(" text"), textEvent(" only", "STOP")], delayMs: 2},
+        });
+        const client = new GeminiApiClient(accountPool, "test-project", true);
+
+        const [first, second] = await Promise.all([
+            collect(client.streamContent(createRequest("first"))),
+            collect(client.streamContent(createRequest("second"))),
+        ]);
+
+        expect(contentOf(first)).toBe("Hi  there");
+        expect(deltas(first).map((delta) => delta.thinking ?? "").join("")).toBe("secret");
+        expect(contentOf(second)).toBe("plain text only");
+        expect(deltas(second).some((delta) => delta.thinking !== undefined)).toBe(false);
+    });
+
+    it("should number tool calls per stream", async () => {
+        const callEvent = (name: string, finishReason?: Gemini.FinishReason): Gemini.GenerateContentResponse => ({
+            candidates: [{content: {parts: [{functionCall: {name, args: {}}}] as unknown as Array<{text?: string}>}, finishReason}],
+        });
+        stubBackend({
+            first: {events: [callEvent("read"), callEvent("write", "STOP")], delayMs: 3},
+            second: {events: [callEvent("list"), callEvent("search", "STOP")], delayMs: 4},
+        });
+        const client = new GeminiApiClient(accountPool, "test-project", true);
+
+        const [first, second] = await Promise.all([
+            collect(client.streamContent(createRequest("first"))),
+            collect(client.streamContent(createRequest("second"))),
+        ]);
+
+        for (const chunks of [first, second]) {
+            const toolCalls = deltas(chunks).flatMap((delta) => delta.tool_calls ?? []);
+            expect(toolCalls.map((toolCall) => toolCall.index)).toEqual([0, 1]);
+            expect(chunks.at(-1)?.choices[0].finish_reason).toBe("tool_calls");
+        }
+        expect(deltas(first).flatMap((delta) => delta.tool_calls ?? []).map((toolCall) => toolCall.function.name)).toEqual(["read", "write"]);
+        expect(deltas(second).flatMap((delta) => delta.tool_calls ?? []).map((toolCall) => toolCall.function.name)).toEqual(["list", "search"]);
+    });
+
+    it("should start a new session for each stream of the same client", async () => {
+        stubBackend({
+            first: {events: [textEvent("Hello", "STOP")], delayMs: 1},
+        });
+        const client = new GeminiApiClient(accountPool, "test-project", true);
+
+        const first = await collect(client.streamContent(createRequest("first")));
+        const second = await collect(client.streamContent(createRequest("first")));
+
+        expect(second[0].id).not.toBe(first[0].id);
+        expect(second[0].choices[0].delta.role).toBe("assistant");
+    });
+});
+
+describe("GeminiApiClient parallel function calls", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("should number the calls of a recorded turn sequentially with distinct ids", async () => {
+        stubRecordedResponse(RECORDED_PARALLEL_CALLS);
+        const client = new GeminiApiClient(accountPool, "test-project", true);
+
+        const chunks = await collect(client.streamContent(createRequest("weather")));
+        const toolCalls = deltas(chunks).flatMap((delta) => delta.tool_calls ?? []);
+
+        expect(toolCalls.map((toolCall) => toolCall.index)).toEqual([0, 1]);
+        expect(toolCalls.map((toolCall) => JSON.parse(toolCall.function.arguments))).toEqual([{city: "Paris"}, {city: "Rome"}]);
+        expect(new Set(toolCalls.map((toolCall) => toolCall.id)).size).toBe(2);
+        expect(chunks.at(-1)?.choices[0].finish_reason).toBe("tool_calls");
+    });
+
+    it("should aggregate every call of the turn in a non-streaming completion", async () => {
+        stubRecordedResponse(RECORDED_PARALLEL_CALLS);
+        const client = new GeminiApiClient(accountPool, "test-project", true);
+
+        const completion = await client.getCompletion(createRequest("weather"));
+
+        expect(completion.tool_calls).toEqual([
+            {index: 0, id: expect.stringMatching(/^call_/), type: "function", function: {name: "get_weather", arguments: "{\"city\":\"Paris\"}"}},
+            {index: 1, id: expect.stringMatching(/^call_/), type: "function", function: {name: "get_weather", arguments: "{\"city\":\"Rome\"}"}},
+        ]);
+        expect(completion.finishReason).toBe("tool_calls");
+        expect(completion.thinking).toBe("Checking both cities.");
+    });
+
+    it("should send the signature of the function call part with its tool call", async () => {
+        stubRecordedResponse(RECORDED_PARALLEL_CALLS);
+        const client = new GeminiApiClient(accountPool, "test-project", true);
+
+        const chunks = await collect(client.streamContent(createRequest("weather")));
+        const toolCallDeltas = deltas(chunks).filter((delta) => delta.tool_calls);
+
+        expect(toolCallDeltas.map((delta) => delta.signature)).toEqual(["sig-parallel", undefined]);
+        expect((await client.getCompletion(createRequest("weather"))).signature).toBe("sig-parallel");
+    });
+
+    it("should cache the thought signature for every call of the turn", async () => {
+        stubRecordedResponse(RECORDED_PARALLEL_CALLS);
+        const client = new GeminiApiClient(accountPool, "test-project", true);
+
+        const completion = await client.getCompletion(createRequest("weather"));
+
+        for (const toolCall of completion.tool_calls ?? []) {
+            expect(signatureCache.get(toolCall.id)).toMatchObject({signature: "sig-parallel", thoughtText: "Checking both cities."});
+        }
+    });
+});
+
+describe("GeminiApiClient streamed function call arguments", () => {
+    const streamedCallEvents: Gemini.GenerateContentResponse[] = [
+        {candidates: [{content: {parts: [{functionCall: {name: "write_file", willContinue: true}}] as unknown as Array<{text?: string}>}}]},
+        {candidates: [{content: {parts: [{functionCall: {partialArgs: [{jsonPath: "$.path", stringValue: "a.txt"}, {jsonPath: "$.content", stringValue: "Hello", willContinue: true}], willContinue: true}}] as unknown as Array<{text?: string}>}}]},
+        {candidates: [{content: {parts: [{functionCall: {partialArgs: [{jsonPath: "$.content", stringValue: " world"}], willContinue: true}}] as unknown as Array<{text?: string}>}}]},
+        {candidates: [{content: {parts: [{functionCall: {}}] as unknown as Array<{text?: string}>}, finishReason: "STOP"}]},
+    ];
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("should forward partial arguments as incremental tool call deltas", async () => {
+        stubBackend({write: {events: streamedCallEvents, delayMs: 1}});
+        const client = new GeminiApiClient(accountPool, "test-project", true, undefined, true);
+
+        const chunks = await collect(client.streamContent(createRequest("write")));
+        const toolCalls = deltas(chunks).flatMap((delta) => delta.tool_calls ?? []);
+
+        expect(toolCalls).toEqual([
+            {index: 0, id: expect.stringMatching(/^call_/), type: "function", function: {name: "write_file", arguments: ""}},
+            {index: 0, function: {arguments: "{\"path\":\"a.txt\",\"content\":\"Hello"}},
+            {index: 0, function: {arguments: " world\""}},
+            {index: 0, function: {arguments: "}"}},
+        ]);
+        expect(chunks.at(-1)?.choices[0].finish_reason).toBe("tool_calls");
+    });
+
+    const createFunctionRequest = (model: string): Gemini.ChatCompletionRequest => {
+        const request = {...createRequest("write"), model};
+        request.request.tools = [{functionDeclarations: [{name: "write_file", description: "Write a file", parameters: {}}]}];
+        return request;
+    };
+
+    it("should request streamed arguments for requests with functions", async () => {
+        stubBackend({write: {events: streamedCallEvents, delayMs: 1}});
+        const client = new GeminiApiClient(accountPool, "test-project", true, undefined, true);
+
+        await collect(client.streamContent(createFunctionRequest("gemini-3-pro-preview")));
+
+        const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string) as Gemini.ChatCompletionRequest;
+        expect(body.request.toolConfig?.functionCallingConfig.streamFunctionCallArguments).toBe(true);
+    });
+
+    it("should not request streamed arguments from models rejecting them", async () => {
+        stubBackend({write: {events: [textEvent("Done", "STOP")], delayMs: 1}});
+        const client = new GeminiApiClient(accountPool, "test-project", true, undefined, true);
+
+        await collect(client.streamContent(createFunctionRequest("gemini-2.5-pro")));
+
+        const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string) as Gemini.ChatCompletionRequest;
+        expect(body.request.toolConfig).toBeUndefined();
+    });
+
+    it("should aggregate streamed arguments in a non-streaming completion", async () => {
+        stubBackend({write: {events: streamedCallEvents, delayMs: 1}});
+        const client = new GeminiApiClient(accountPool, "test-project", true, undefined, true);
+
+        const completion = await client.getCompletion(createRequest("write"));
+
+        expect(completion.tool_calls).toHaveLength(1);
+        expect(completion.tool_calls?.[0].function.name).toBe("write_file");
+        expect(JSON.parse(completion.tool_calls?.[0].function.arguments ?? "")).toEqual({path: "a.txt", content: "Hello world"});
+    });
+
+    it("should complete the arguments when the candidate finishes without ending the call", async () => {
+        stubBackend({write: {events: [...streamedCallEvents.slice(0, 2), textEvent("", "STOP")], delayMs: 1}});
+        const client = new GeminiApiClient(accountPool, "test-project", true, undefined, true);
+
+        const completion = await client.getCompletion(createRequest("write"));
+
+        expect(JSON.parse(completion.tool_calls?.[0].function.arguments ?? "")).toEqual({path: "a.txt", content: "Hello"});
+    });
+});
+
+describe("GeminiApiClient auto switch notice", () => {
+    const NOTICE = "[gemini-cli-proxy] <429> You are downgraded from gemini-2.5-flash to gemini-2.5-flash-lite because of rate limits\n\n";
+
+    beforeEach(() => {
+        // gemini-2.5-flash is rate limited, its fallback gemini-2.5-flash-lite answers
+        vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+            const body = JSON.parse(init.body as string) as Gemini.ChatCompletionRequest;
+            if (body.model === "gemini-2.5-flash") {
+                return new Response("Resource exhausted", {status: 429});
+            }
+            return createSSEResponse([textEvent("Hello", "STOP")], 0);
+        }));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("should report the switch on the first chunk of a stream", async () => {
+        const client = new GeminiApiClient(accountPool, "test-project", false);
+
+        const chunks = await collect(client.streamContent(createRequest("hi")));
+
+        expect(chunks[0]._autoSwitchNotification).toContain("downgraded from gemini-2.5-flash to gemini-2.5-flash-lite");
+        expect(chunks.every((chunk) => chunk.model === "gemini-2.5-flash-lite")).toBe(true);
+        expect(contentOf(chunks)).toBe("Hello");
+    });
+
+    it("should prepend the notice to the content of completions when enabled", async () => {
+        const client = new GeminiApiClient(accountPool, "test-project", false, undefined, false, true);
+
+        const completion = await client.getCompletion(createRequest("hi"));
+
+        expect(completion.model).toBe("gemini-2.5-flash-lite");
+        expect(completion.content).toBe(`${NOTICE}Hello`);
+        expect(completion.choices[0].content).toBe(`${NOTICE}Hello`);
+    });
+
+    it("should leave the content of streams to the routes", async () => {
+        const client = new GeminiApiClient(accountPool, "test-project", false, undefined, false, true);
+
+        const chunks = await collect(client.streamContent(createRequest("hi")));
+
+        expect(contentOf(chunks)).toBe("Hello");
+        expect(chunks[0]._autoSwitchNotification).toBeDefined();
+    });
+
+    it("should not prepend the notice to structured output", async () => {
+        const client = new GeminiApiClient(accountPool, "test-project", false, undefined, false, true);
+        const request = createRequest("hi");
+        request.request.generationConfig = {responseMimeType: "application/json"};
+
+        const completion = await client.getCompletion(request);
+
+        expect(completion._autoSwitchNotification).toBeDefined();
+        expect(completion.content).toBe("Hello");
+    });
+});
+
+describe("GeminiApiClient countTokens", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("should count the system instruction and tool declarations as a leading user turn", async () => {
+        let counted: Gemini.CountTokensRequest | undefined;
+        vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+            counted = JSON.parse(init.body as string) as Gemini.CountTokensRequest;
+            return new Response(JSON.stringify({totalTokens: 42}), {status: 200});
+        }));
+        const client = new GeminiApiClient(accountPool, "test-project", true);
+        const tools = [{functionDeclarations: [{name: "read_file", description: "Reads a file", parameters: {type: "object"}}]}];
+        const request = createRequest("hi");
+        request.request = {...request.request, systemInstruction: {parts: [{text: "Be brief."}]}, tools};
+
+        expect(await client.countTokens(request)).toBe(42);
+        expect(counted?.request.contents).toEqual([
+            {role: "user", parts: [{text: "Be brief."}, {text: JSON.stringify(tools)}]},
+            {role: "user", parts: [{text: "hi"}]},
+        ]);
+    });
+});
+
+describe("GeminiApiClient candidateCount", () => {
+    let server: http.Server;
+    let requests: Gemini.ChatCompletionRequest[];
+
+    /**
+     * Starts a stub Code Assist server rejecting requests for several candidates with the given error
+     */
+    const startServer = async (rejection: GoogleRpcStatus) => {
+        requests = [];
+        server = http.createServer(async (req, res) => {
+            let body = "";
+            for await (const data of req) {
+                body += data;
+            }
+            const request = JSON.parse(body) as Gemini.ChatCompletionRequest;
+            requests.push(request);
+            if (request.request.generationConfig?.candidateCount) {
+                res.writeHead(400, {"Content-Type": "application/json"}).end(JSON.stringify({error: rejection}));
+                return;
+            }
+            res.writeHead(200, {"Content-Type": "text/event-stream"});
+            res.end(`data: ${JSON.stringify({response: textEvent(`answer ${requests.length}`, "STOP")})}\n\n`);
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        vi.stubEnv("CODE_ASSIST_ENDPOINT", `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+        return new GeminiApiClient(accountPool, "test-project", true);
+    };
+
+    const createChoicesRequest = (candidateCount: number): Gemini.ChatCompletionRequest => {
+        const request = createRequest("hi");
+        request.request.generationConfig = {candidateCount};
+        return request;
+    };
+
+    afterEach(async () => {
+        vi.unstubAllEnvs();
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should request the choices in parallel when the backend only generates one candidate", async () => {
+        const client = await startServer({code: 400, message: "Multiple candidates is not enabled for models/gemini-2.5-flash", status: "INVALID_ARGUMENT"});
+
+        const chunks = await collect(client.streamContent(createChoicesRequest(2)));
+
+        const contents = chunks.flatMap((chunk) => chunk.choices).filter((choice) => choice.delta.content);
+        expect(contents.map((choice) => choice.index).sort()).toEqual([0, 1]);
+        expect(requests.map((request) => request.request.generationConfig?.candidateCount)).toEqual([2, undefined, undefined]);
+
+        // The backend is remembered, later requests go parallel right away
+        await collect(client.streamContent(createChoicesRequest(2)));
+        expect(requests).toHaveLength(5);
+    });
+
+    it("should not fall back on other invalid requests", async () => {
+        const client = await startServer({code: 400, message: "Invalid JSON payload received. Unknown name \"candidates\"", status: "INVALID_ARGUMENT"});
+
+        await expect(collect(client.streamContent(createChoicesRequest(2)))).rejects.toMatchObject({statusCode: 400});
+        expect(requests).toHaveLength(1);
+    });
+});
+
+describe("GeminiApiClient account pool", () => {
+    const createAccount = (name: string, project?: string) => ({
+        name,
+        project,
+        authClient: {getAccessToken: async () => ({token: name}), credentials: {}} as unknown as OAuth2Client,
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("should switch to the next account before downgrading the model", async () => {
+        const requests: Array<{token: string; model: string; project?: string}> = [];
+        vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+            const body = JSON.parse(init.body as string) as Gemini.ChatCompletionRequest;
+            const token = (init.headers as Record<string, string>).Authorization.replace("Bearer ", "");
+            requests.push({token, model: body.model, project: body.project});
+            if (token === "work") {
+                return new Response("Resource exhausted", {status: 429});
+            }
+            return createSSEResponse([textEvent("Hello", "STOP")], 0);
+        }));
+        const pool = new AccountPool([createAccount("work", "work-project"), createAccount("home", "home-project")]);
+        const client = new GeminiApiClient(pool, "test-project", false);
+
+        const chunks = await collect(client.streamContent({...createRequest("hi"), model: "gemini-2.5-pro"}));
+
+        expect(contentOf(chunks)).toBe("Hello");
+        expect(chunks[0]._autoSwitchNotification).toBeUndefined();
+        expect(requests).toEqual([
+            {token: "work", model: "gemini-2.5-pro", project: "work-project"},
+            {token: "home", model: "gemini-2.5-pro", project: "home-project"},
+        ]);
+    });
+
+    it("should take one turn per request when the model is switched", async () => {
+        const tokens: string[] = [];
+        vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+            const body = JSON.parse(init.body as string) as Gemini.ChatCompletionRequest;
+            tokens.push((init.headers as Record<string, string>).Authorization.replace("Bearer ", ""));
+            if (body.model === "gemini-2.5-pro") {
+                return new Response("Resource exhausted", {status: 429});
+            }
+            return createSSEResponse([textEvent("Hello", "STOP")], 0);
+        }));
+        const pool = new AccountPool([createAccount("work", "work-project"), createAccount("home", "home-project")]);
+        const client = new GeminiApiClient(pool, "test-project", false);
+
+        await collect(client.streamContent({...createRequest("hi"), model: "gemini-2.5-pro"}));
+        await collect(client.streamContent({...createRequest("hi"), model: "gemini-2.5-flash"}));
+
+        // pro is rate limited on both accounts, flash starts again with the account of the turn
+        expect(tokens).toEqual(["work", "home", "work", "home"]);
+    });
+
+    it("should only fail the requests of an account whose project can't be discovered", async () => {
+        const projects: Array<string | undefined> = [];
+        vi.stubGlobal("fetch", vi.fn(async (url: string, init: RequestInit) => {
+            if (url.endsWith(":loadCodeAssist")) {
+                return new Response("Permission denied", {status: 403});
+            }
+            projects.push((JSON.parse(init.body as string) as Gemini.ChatCompletionRequest).project);
+            return createSSEResponse([textEvent("Hello", "STOP")], 0);
+        }));
+        const client = new GeminiApiClient(new AccountPool([createAccount("broken"), createAccount("home", "home-project")]), undefined, true);
+
+        await expect(collect(client.streamContent(createRequest("hi")))).rejects.toThrow("Could not discover project ID.");
+        expect(contentOf(await collect(client.streamContent(createRequest("hi"))))).toBe("Hello");
+        expect(projects).toEqual(["home-project"]);
+    });
+
+    it("should use the configured project for accounts without their own", async () => {
+        const projects: Array<string | undefined> = [];
+        vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+            projects.push((JSON.parse(init.body as string) as Gemini.ChatCompletionRequest).project);
+            return createSSEResponse([textEvent("Hello", "STOP")], 0);
+        }));
+        const client = new GeminiApiClient(new AccountPool([createAccount("work"), createAccount("home", "home-project")]), "test-project", true);
+
+        await collect(client.streamContent(createRequest("hi")));
+        await collect(client.streamContent(createRequest("hi")));
+
+        expect(projects).toEqual(["test-project", "home-project"]);
+    });
+});
+
+describe("GeminiApiClient retries", () => {
+    const retryOptions: RetryOptions = {
+        maxAttempts: 3,
+        initialDelayMs: 1,
+        maxDelayMs: 1,
+        jitter: 0,
+        retryableStatusCodes: [500, 502, 504],
+        timeoutMs: 200,
+    };
+    let server: http.Server;
+    let requests: string[];
+
+    /**
+     * Starts a stub Code Assist server answering the nth request with the nth handler
+     */
+    const startServer = async (...handlers: Array<(res: http.ServerResponse) => void>) => {
+        requests = [];
+        server = http.createServer((req, res) => {
+            requests.push(req.url ?? "");
+            req.resume();
+            handlers[Math.min(requests.length, handlers.length) - 1](res);
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        vi.stubEnv("CODE_ASSIST_ENDPOINT", `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+        return new GeminiApiClient(accountPool, "test-project", true, undefined, false, false, retryOptions);
+    };
+
+    const status = (code: number) => (res: http.ServerResponse) => {
+        res.writeHead(code).end("upstream error");
+    };
+
+    const sse = (...events: Gemini.GenerateContentResponse[]) => (res: http.ServerResponse) => {
+        res.writeHead(200, {"Content-Type": "text/event-stream"});
+        res.end(events.map((event) => `data: ${JSON.stringify({response: event})}\n\n`).join(""));
+    };
+
+    afterEach(async () => {
+        vi.unstubAllEnvs();
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should retry a stream that failed with a retryable status", async () => {
+        const client = await startServer(status(502), status(500), sse(textEvent("Hello", "STOP")));
+
+        const chunks = await collect(client.streamContent(createRequest("hi")));
+
+        expect(contentOf(chunks)).toBe("Hello");
+        expect(requests).toHaveLength(3);
+    });
+
+    it("should give up after the maximum number of attempts", async () => {
+        const client = await startServer(status(504));
+
+        await expect(collect(client.streamContent(createRequest("hi")))).rejects.toMatchObject({statusCode: 504});
+        expect(requests).toHaveLength(3);
+    });
+
+    it("should not retry other errors", async () => {
+        const client = await startServer(status(400), sse(textEvent("Hello", "STOP")));
+
+        await expect(collect(client.streamContent(createRequest("hi")))).rejects.toMatchObject({statusCode: 400});
+        expect(requests).toHaveLength(1);
+    });
+
+    it("should abort and retry an attempt that does not answer in time", async () => {
+        const client = await startServer(() => undefined, sse(textEvent("Hello", "STOP")));
+
+        const chunks = await collect(client.streamContent(createRequest("hi")));
+
+        expect(contentOf(chunks)).toBe("Hello");
+        expect(requests).toHaveLength(2);
+    });
+
+    it("should not retry once the stream started", async () => {
+        const client = await startServer((res) => {
+            res.writeHead(200, {"Content-Type": "text/event-stream"});
+            res.write(`data: ${JSON.stringify({response: textEvent("Hel")})}\n\n`);
+            setTimeout(() => res.destroy(), 20);
+        });
+
+        const chunks: OpenAI.StreamChunk[] = [];
+        await expect(async () => {
+            for await (const chunk of client.streamContent(createRequest("hi"))) {
+                chunks.push(chunk);
+            }
+        }).rejects.toThrow();
+        expect(contentOf(chunks)).toBe("Hel");
+        expect(requests).toHaveLength(1);
+    });
+
+    it("should not repeat a generation that ended in a malformed function call", async () => {
+        const client = await startServer(sse({candidates: [{finishReason: "MALFORMED_FUNCTION_CALL", finishMessage: "print(get_weather("}]}));
+
+        await expect(collect(client.streamContent(createRequest("hi")))).rejects.toMatchObject({
+            statusCode: 502,
+            reason: "MALFORMED_FUNCTION_CALL",
+        });
+        expect(requests).toHaveLength(1);
+    });
+
+    it("should reject a blocked prompt with 400 without retrying", async () => {
+        const client = await startServer(sse({promptFeedback: {blockReason: "SAFETY"}}));
+
+        await expect(collect(client.streamContent(createRequest("hi")))).rejects.toMatchObject({
+            name: "GeminiResponseError",
+            statusCode: 400,
+            reason: "SAFETY",
+        });
+        expect(requests).toHaveLength(1);
+    });
+
+    it("should retry unary calls", async () => {
+        const client = await startServer(status(500), (res) => {
+            res.writeHead(200, {"Content-Type": "application/json"}).end(JSON.stringify({totalTokens: 7}));
+        });
+
+        expect(await client.countTokens(createRequest("hi"))).toBe(7);
+        expect(requests).toEqual(["/v1internal:countTokens", "/v1internal:countTokens"]);
+    });
+
+    it("should not repeat a unary generation that timed out", async () => {
+        const client = await startServer(() => undefined, (res) => {
+            res.writeHead(200, {"Content-Type": "application/json"}).end(JSON.stringify({response: textEvent("Hello", "STOP")}));
+        });
+
+        await expect(client.generateContent(createRequest("hi"))).rejects.toThrow(UpstreamTimeoutError);
+        expect(requests).toEqual(["/v1internal:generateContent"]);
+    });
+
+    it("should retry raw streams of the Gemini API", async () => {
+        const client = await startServer(status(502), (res) => {
+            res.writeHead(200, {"Content-Type": "text/event-stream"});
+            res.end(`data: ${JSON.stringify({response: textEvent("Hello", "STOP")})}\n\n`);
+        });
+
+        const responses: Gemini.Response[] = [];
+        for await (const response of client.streamGenerateContent(createRequest("hi"))) {
+            responses.push(response);
+        }
+
+        expect(responses).toEqual([{response: textEvent("Hello", "STOP")}]);
+        expect(requests).toHaveLength(2);
+    });
+});
+
+describe("GeminiApiClient cancellation", () => {
+    let server: http.Server;
+
+    afterEach(async () => {
+        vi.unstubAllEnvs();
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should abort the upstream request when the signal is aborted", async () => {
+        let upstreamClosed: () => void = () => undefined;
+        const closed = new Promise<void>((resolve) => {
+            upstreamClosed = resolve;
+        });
+        // Sends the first event and keeps the stream open until the client goes away
+        server = http.createServer((req, res) => {
+            req.resume();
+            res.on("close", upstreamClosed);
+            res.writeHead(200, {"Content-Type": "text/event-stream"});
+            res.write(`data: ${JSON.stringify({response: textEvent("Hel")})}\n\n`);
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        vi.stubEnv("CODE_ASSIST_ENDPOINT", `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+        const client = new GeminiApiClient(accountPool, "test-project", true);
+        const controller = new AbortController();
+
+        const chunks: OpenAI.StreamChunk[] = [];
+        await expect(async () => {
+            for await (const chunk of client.streamContent(createRequest("hi"), false, controller.signal)) {
+                chunks.push(chunk);
+                controller.abort(new RequestCancelledError());
+            }
+        }).rejects.toThrow(RequestCancelledError);
+
+        await closed;
+        expect(contentOf(chunks)).toBe("Hel");
+    });
+});
@@ -1,69 +1,119 @@
-import {OAuth2Client} from "google-auth-library";
 import * as OpenAI from "../types/openai.js";
 import * as Gemini from "../types/gemini.js";
-import {CODE_ASSIST_API_VERSION, CODE_ASSIST_ENDPOINT, OPENAI_CHAT_COMPLETION_OBJECT} from "../utils/constant.js";
+import {CODE_ASSIST_API_VERSION, CODE_ASSIST_ENDPOINT} from "../utils/constant.js";
 import {AutoModelSwitchingHelper, type RetryableRequestData} from "./auto-model-switching.js";
+import {modelRegistry} from "./model-registry.js";
+import {GeminiApiError, GeminiResponseError, parseGoogleRpcStatus, parseRetryDelay} from "./errors.js";
 import {getLogger, Logger} from "../utils/logger.js";
 import {signatureCache} from "./signature-cache.js";
+import {mergeStreams} from "../utils/stream.js";
+import {StreamSession, type ChoiceState} from "./stream-session.js";
+import {PartialArgsSerializer} from "./partial-args.js";
+import {DEFAULT_RETRY_OPTIONS, withRetry, withStreamRetry, type RetryOptions} from "./retry.js";
+import type {Account, AccountPool} from "./account-pool.js";
+import {
+    addFunctionCallArgumentStreaming,
+    addNativeTools,
+    hasStructuredOutput,
+    mapFinishReasonToOpenAI, mapGroundingToStreamDelta, type NativeToolsOptions} from "./mapper.js";
 import chalk from "chalk";
 
+// Messages of the INVALID_ARGUMENT error of backends that only generate a single candidate
+const CANDIDATE_COUNT_UNSUPPORTED_MESSAGE = /multiple candidates is not enabled|only one candidate can be specified|candidate_?count/i;
+
 /**
- * Custom error class for Gemini API errors with status code information
+ * Token usage of a non-streaming completion
  */
-export class GeminiApiError extends Error {
-    constructor(
-        message: string,
-        public readonly statusCode: number,
-        public readonly responseText?: string
-    ) {
-        super(message);
-        this.name = "GeminiApiError";
-    }
-}
+export type CompletionUsage = {
+    inputTokens: number;
+    // Includes reasoningTokens
+    outputTokens: number;
+    reasoningTokens?: number;
+    cachedTokens?: number;
+};
+
+/**
+ * One choice of a non-streaming completion
+ */
+export type CompletionChoice = {
+    index: number;
+    content: string;
+    thinking?: string;
+    signature?: string;
+    tool_calls?: OpenAI.ToolCall[];
+    annotations?: OpenAI.UrlCitationAnnotation[];
+    grounding?: Gemini.GroundingMetadata;
+    finishReason: OpenAI.FinishReason;
+};
+
+/**
+ * Non-streaming completion, the top level fields are those of the first choice
+ */
+export type Completion = CompletionChoice & {
+    // Model that answered, a fallback of the requested one after an auto switch
+    model: string;
+    choices: CompletionChoice[];
+    usage?: CompletionUsage;
+    _autoSwitchNotification?: string;
+};
+
+/**
+ * In-band notice of a model switch, prepended to the content of non-streamed responses with --auto-switch-notice
+ */
+export const formatAutoSwitchNotice = (notification: string): string => `[gemini-cli-proxy] ${notification}\n\n`;
 
 /**
  * Handles communication with Google's Gemini API through the Code Assist endpoint.
+ * Requests are spread over the accounts of the pool, rate limited accounts are skipped.
  */
 export class GeminiApiClient {
-    private projectId: string | null = null;
-    private firstChunk: boolean = true;
-    private readonly creationTime: number;
-    private readonly chatID: string;
+    // Discovered projects of the accounts without a configured one
+    private readonly projectIds = new Map<Account, string>();
     private readonly autoSwitcher: AutoModelSwitchingHelper;
     private readonly logger: Logger;
+    // Models whose backend rejected candidateCount, their choices are requested in parallel instead
+    private readonly candidateCountUnsupported = new Set<string>();
+    // Like Gemini CLI, the endpoint can be overridden for testing
+    private readonly endpoint = process.env.CODE_ASSIST_ENDPOINT ?? CODE_ASSIST_ENDPOINT;
 
     constructor(
-        private readonly authClient: OAuth2Client,
+        private readonly accountPool: AccountPool,
+        // Project of the accounts without their own
         private readonly googleCloudProject: string | undefined,
         private readonly disableAutoModelSwitch: boolean,
+        private readonly nativeTools: NativeToolsOptions = {googleSearch: false, urlContext: false},
+        private readonly streamFunctionCallArguments: boolean = false,
+        // Streams carry the notice as an SSE comment written by the routes
+        readonly autoSwitchNotice: boolean = false,
+        private readonly retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS,
     ) {
         this.googleCloudProject = googleCloudProject;
-        this.chatID = `chat-${crypto.randomUUID()}`;
-        this.creationTime = Math.floor(Date.now() / 1000);
         this.autoSwitcher = AutoModelSwitchingHelper.getInstance();
         this.logger = getLogger("GEMINI-CLIENT", chalk.blue);
     }
 
     /**
-     * Discovers the Google Cloud project ID.
+     * Discovers the Google Cloud project ID of an account.
      */
-    public async discoverProjectId(): Promise<string> {
-        if (this.googleCloudProject) {
-            return this.googleCloudProject;
+    private async discoverProjectId(account: Account): Promise<string> {
+        const configuredProject = account.project ?? this.googleCloudProject;
+        if (configuredProject) {
+            return configuredProject;
         }
-        if (this.projectId) {
-            return this.projectId;
+        const discoveredProject = this.projectIds.get(account);
+        if (discoveredProject) {
+            return discoveredProject;
         }
 
         try {
             const initialProjectId = "default-project";
-            const loadResponse = (await this.callEndpoint("loadCodeAssist", {
+            const loadResponse = (await this.callEndpoint(account, "loadCodeAssist", {
                 cloudaicompanionProject: initialProjectId,
                 metadata: {duetProject: initialProjectId},
             })) as Gemini.ProjectDiscoveryResponse;
 
             if (loadResponse.cloudaicompanionProject) {
-                this.projectId = loadResponse.cloudaicompanionProject;
+                this.projectIds.set(account, loadResponse.cloudaicompanionProject);
                 return loadResponse.cloudaicompanionProject;
             }
 
@@ -79,7 +129,7 @@ export class GeminiApiClient {
             let retryCount = 0;
             let lroResponse: Gemini.OnboardUserResponse | undefined;
             while (retryCount < MAX_RETRIES) {
-                lroResponse = (await this.callEndpoint("onboardUser", onboardRequest)) as Gemini.OnboardUserResponse;
+                lroResponse = (await this.callEndpoint(account, "onboardUser", onboardRequest)) as Gemini.OnboardUserResponse;
                 if (lroResponse.done) {
                     break;
                 }
@@ -91,185 +141,288 @@ export class GeminiApiClient {
                 throw new Error("common:errors.geminiCli.onboardingTimeout");
             }
 
-            this.projectId = lroResponse.response?.cloudaicompanionProject?.id ?? initialProjectId;
-            return this.projectId;
+            const projectId = lroResponse.response?.cloudaicompanionProject?.id ?? initialProjectId;
+            this.projectIds.set(account, projectId);
+            return projectId;
         } catch (error: unknown) {
-            this.logger.error("Failed to discover project ID", error);
+            this.logger.error(`Failed to discover project ID of account ${account.name}`, error);
             throw new Error("Could not discover project ID.");
         }
     }
 
-    private async callEndpoint(method: string, body: Record<string, unknown>): Promise<unknown> {
-        const {token} = await this.authClient.getAccessToken();
-        const response = await fetch(`${CODE_ASSIST_ENDPOINT}/${CODE_ASSIST_API_VERSION}:${method}`,
-            {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`,
-                },
-                body: JSON.stringify(body),
-            },
-        );
+    /**
+     * Request with the project of the account it is sent with. Projects are resolved per account, so an
+     * account whose project can't be discovered only fails the requests sent with it.
+     */
+    private async withAccountProject(geminiCompletionRequest: Gemini.ChatCompletionRequest, account: Account): Promise<Gemini.ChatCompletionRequest> {
+        return {...geminiCompletionRequest, project: await this.discoverProjectId(account)};
+    }
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new GeminiApiError(
-                `API call failed with status ${response.status}: ${errorText}`,
-                response.status,
-                errorText
+    /**
+     * Calls a unary Code Assist method with an account, transient failures are retried
+     */
+    private async callEndpoint(
+        account: Account,
+        method: string,
+        body: Record<string, unknown>,
+        signal?: AbortSignal,
+        retryOptions: RetryOptions = this.retryOptions,
+    ): Promise<unknown> {
+        return withRetry(async (signal) => {
+            const {token} = await account.authClient.getAccessToken();
+            const response = await fetch(`${this.endpoint}/${CODE_ASSIST_API_VERSION}:${method}`,
+                {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                        Authorization: `Bearer ${token}`,
+                    },
+                    body: JSON.stringify(body),
+                    signal,
+                },
             );
-        }
 
-        return response.json();
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new GeminiApiError(
+                    `API call failed with status ${response.status}: ${errorText}`,
+                    response.status,
+                    errorText,
+                    parseRetryDelay(response.headers.get("retry-after"), errorText)
+                );
+            }
+
+            return response.json();
+        }, retryOptions, signal);
     }
 
     /**
-     * Get non-streaming completion from Gemini API.
+     * Count the input tokens of a request with the Code Assist countTokens method.
+     */
+    async countTokens(geminiCompletionRequest: Gemini.ChatCompletionRequest): Promise<number> {
+        const {systemInstruction, tools, contents} = geminiCompletionRequest.request;
+        // countTokens only accepts contents, so the system instruction and the tool declarations are
+        // counted as a leading user turn, the declarations as their JSON like the local estimate does
+        const leadingParts: Gemini.Part[] = [
+            ...(systemInstruction?.parts ?? []),
+            ...(tools?.length ? [{text: JSON.stringify(tools)}] : []),
+        ];
+        const countTokensRequest: Gemini.CountTokensRequest = {
+            request: {
+                model: `models/${geminiCompletionRequest.model}`,
+                contents: leadingParts.length > 0 ? [{role: "user", parts: leadingParts}, ...contents] : contents,
+            },
+        };
+
+        const response = await this.accountPool.withAccount(
+            geminiCompletionRequest.model,
+            (account) => this.callEndpoint(account, "countTokens", countTokensRequest)
+        ) as Gemini.CountTokensResponse;
+        return response.totalTokens ?? 0;
+    }
+
+    /**
+     * Get non-streaming completion from Gemini API. Rate limited models are switched to their fallbacks.
      */
     async getCompletion(
         geminiCompletionRequest: Gemini.ChatCompletionRequest,
         isRetry: boolean = false,
-    ): Promise<{
-        content: string;
-        tool_calls?: OpenAI.ToolCall[];
-        usage?: {
-            inputTokens: number;
-            outputTokens: number;
-        };
-        _autoSwitchNotification?: string;
-    }> {
-        try {
-            const chunks: OpenAI.StreamChunk[] = [];
-            for await (const chunk of this.streamContent(geminiCompletionRequest, isRetry)) {
-                chunks.push(chunk);
+        signal?: AbortSignal,
+    ): Promise<Completion> {
+        // Every model of the request starts with the same account
+        const turn = this.accountPool.takeTurn();
+        if (this.disableAutoModelSwitch) {
+            return this.getCompletionInternal(geminiCompletionRequest, turn, isRetry, signal);
+        }
+        const completion = await this.autoSwitcher.handleNonStreamingFallback(
+            geminiCompletionRequest,
+            (model: string, data: RetryableRequestData) => this.getCompletionInternal({...data, model} as Gemini.ChatCompletionRequest, turn, isRetry, signal)
+        ) as Completion;
+
+        // A prefix would break JSON output, its clients get the switch from the headers only
+        if (this.autoSwitchNotice && completion._autoSwitchNotification && !hasStructuredOutput(geminiCompletionRequest.request)) {
+            const notice = formatAutoSwitchNotice(completion._autoSwitchNotification);
+            completion.content = notice + completion.content;
+            for (const choice of completion.choices) {
+                choice.content = notice + choice.content;
             }
+        }
+        return completion;
+    }
 
-            let content = "";
-            const tool_calls: OpenAI.ToolCall[] = [];
-            let usage: {inputTokens: number; outputTokens: number} | undefined;
+    /**
+     * Aggregates the stream of one model into a completion
+     */
+    private async getCompletionInternal(
+        geminiCompletionRequest: Gemini.ChatCompletionRequest,
+        turn: number,
+        isRetry: boolean,
+        signal?: AbortSignal,
+    ): Promise<Completion> {
+        const choices = new Map<number, CompletionChoice>();
+        let usage: CompletionUsage | undefined;
+
+        for await (const chunk of this.streamContentInternal(geminiCompletionRequest, turn, isRetry, signal)) {
+            for (const {index, delta, finish_reason} of chunk.choices) {
+                let choice = choices.get(index);
+                if (!choice) {
+                    choice = {index, content: "", finishReason: "stop"};
+                    choices.set(index, choice);
+                }
 
-            for (const chunk of chunks) {
-                if (chunk.choices[0].delta.content) {
-                    content += chunk.choices[0].delta.content;
+                if (delta.content) {
+                    choice.content += delta.content;
                 }
-                if (chunk.choices[0].delta.tool_calls) {
-                    tool_calls.push(...chunk.choices[0].delta.tool_calls);
+                if (delta.thinking) {
+                    choice.thinking = (choice.thinking ?? "") + delta.thinking;
                 }
-                if (chunk.usage) {
-                    usage = {
-                        inputTokens: chunk.usage.prompt_tokens,
-                        outputTokens: chunk.usage.completion_tokens,
-                    };
+                if (delta.signature) {
+                    choice.signature = delta.signature;
+                }
+                for (const toolCall of delta.tool_calls ?? []) {
+                    choice.tool_calls = this.mergeToolCall(choice.tool_calls ?? [], toolCall);
+                }
+                if (delta.annotations) {
+                    choice.annotations = [...(choice.annotations ?? []), ...delta.annotations];
+                }
+                if (delta.grounding) {
+                    choice.grounding = delta.grounding;
+                }
+                if (finish_reason) {
+                    choice.finishReason = finish_reason as OpenAI.FinishReason;
                 }
             }
+            if (chunk.usage) {
+                usage = {
+                    inputTokens: chunk.usage.prompt_tokens,
+                    outputTokens: chunk.usage.completion_tokens,
+                    reasoningTokens: chunk.usage.completion_tokens_details?.reasoning_tokens,
+                    cachedTokens: chunk.usage.prompt_tokens_details?.cached_tokens,
+                };
+            }
+        }
 
+        const sortedChoices = [...choices.values()].sort((a, b) => a.index - b.index);
+        const firstChoice = sortedChoices[0] ?? {index: 0, content: "", finishReason: "stop"};
+        return {
+            ...firstChoice,
+            model: geminiCompletionRequest.model,
+            choices: sortedChoices.length > 0 ? sortedChoices : [firstChoice],
+            usage,
+        };
+    }
 
-            return {
-                content,
-                tool_calls: tool_calls.length > 0 ? tool_calls : undefined,
-                usage,
+    /**
+     * Adds a streamed tool call to the calls of a choice, deltas of the same index continue its arguments
+     */
+    private mergeToolCall(toolCalls: OpenAI.ToolCall[], toolCall: OpenAI.StreamToolCall): OpenAI.ToolCall[] {
+        const existing = toolCalls.find((call) => call.index === toolCall.index);
+        if (!existing) {
+            const call: OpenAI.ToolCall = {
+                index: toolCall.index,
+                id: toolCall.id ?? "",
+                type: "function",
+                function: {name: toolCall.function.name ?? "", arguments: toolCall.function.arguments},
             };
-        } catch (error) {
-            if (error instanceof GeminiApiError && 
-                !this.disableAutoModelSwitch &&
-                this.autoSwitcher.isRateLimitError(error.statusCode) &&
-                this.autoSwitcher.shouldAttemptFallback(geminiCompletionRequest.model)) {
-                
-                // Attempt fallback using auto-switching helper
-                return await this.autoSwitcher.handleNonStreamingFallback(
-                    geminiCompletionRequest.model,
-                    error.statusCode,
-                    geminiCompletionRequest,
-                    async (model: string, data: RetryableRequestData) => {
-                        const updatedRequest = {...data, model} as Gemini.ChatCompletionRequest;
-                        return await this.getCompletion(updatedRequest, isRetry);
-                    }
-                ) as Promise<{
-                    content: string;
-                    tool_calls?: OpenAI.ToolCall[];
-                    usage?: {
-                        inputTokens: number;
-                        outputTokens: number;
-                    };
-                    _autoSwitchNotification?: string;
-                }>;
-            }
-            throw error;
+            return [...toolCalls, call].sort((a, b) => a.index - b.index);
         }
+        existing.function.arguments += toolCall.function.arguments;
+        return toolCalls;
     }
 
     /**
-     * Stream content from Gemini API.
+     * Stream content from Gemini API. Rate limited models are switched to their fallbacks before the stream starts.
+     * Aborting the signal, e.g. when the client disconnected, cancels the upstream request.
      */
     async* streamContent(
         geminiCompletionRequest: Gemini.ChatCompletionRequest,
         isRetry: boolean = false,
+        signal?: AbortSignal,
     ): AsyncGenerator<OpenAI.StreamChunk> {
-        try {
-            yield* this.streamContentInternal(geminiCompletionRequest, isRetry);
-        } catch (error) {
-            if (error instanceof GeminiApiError && 
-                !this.disableAutoModelSwitch &&
-                this.autoSwitcher.isRateLimitError(error.statusCode) &&
-                this.autoSwitcher.shouldAttemptFallback(geminiCompletionRequest.model)) {
-                
-                // eslint-disable-next-line @typescript-eslint/no-this-alias
-                const self = this;
-                yield* this.autoSwitcher.handleStreamingFallback(
-                    geminiCompletionRequest.model,
-                    error.statusCode,
-                    geminiCompletionRequest,
-                    async function* (model: string, data: RetryableRequestData) {
-                        const updatedRequest = {...data, model} as Gemini.ChatCompletionRequest;
-                        // Create new client instance to reset firstChunk state
-                        const fallbackClient = new GeminiApiClient(
-                            self.authClient,
-                            self.googleCloudProject,
-                            self.disableAutoModelSwitch,
-                        );
-                        yield* fallbackClient.streamContent(updatedRequest, isRetry);
-                    },
-                    "openai"
-                ) as AsyncIterable<OpenAI.StreamChunk>;
-                return;
-            }
-            throw error;
+        // Every model of the request starts with the same account
+        const turn = this.accountPool.takeTurn();
+        if (this.disableAutoModelSwitch) {
+            yield* this.streamContentInternal(geminiCompletionRequest, turn, isRetry, signal);
+            return;
         }
+        yield* this.autoSwitcher.handleStreamingFallback(
+            geminiCompletionRequest,
+            (model: string, data: RetryableRequestData) => this.streamContentInternal({...data, model} as Gemini.ChatCompletionRequest, turn, isRetry, signal)
+        ) as AsyncIterable<OpenAI.StreamChunk>;
+    }
+
+    /**
+     * Generate content in one call, returns the unwrapped Gemini response.
+     * Code Assist only answers once the generation finished, so a timed out attempt may have been
+     * a long generation: it is not run again, every attempt would use quota for the whole generation.
+     */
+    async generateContent(geminiCompletionRequest: Gemini.ChatCompletionRequest, signal?: AbortSignal): Promise<Gemini.GenerateContentResponse> {
+        const response = await this.accountPool.withAccount(
+            geminiCompletionRequest.model,
+            async (account) => this.callEndpoint(
+                account,
+                "generateContent",
+                await this.withAccountProject(geminiCompletionRequest, account),
+                signal,
+                {...this.retryOptions, retryTimeouts: false}
+            )
+        ) as Gemini.Response;
+        return response.response ?? {};
     }
 
     /**
-     * Internal streaming method with no retry logic
+     * Stream raw Gemini responses from the Code Assist streamGenerateContent method.
+     * Like unary calls, transient failures before the first response are retried.
      */
-    private async* streamContentInternal(
+    async* streamGenerateContent(
         geminiCompletionRequest: Gemini.ChatCompletionRequest,
         isRetry: boolean = false,
-    ): AsyncGenerator<OpenAI.StreamChunk> {
-        const {token} = await this.authClient.getAccessToken();
+        signal?: AbortSignal,
+    ): AsyncGenerator<Gemini.Response> {
+        yield* this.accountPool.withStreamAccount(geminiCompletionRequest.model, (account) => withStreamRetry(
+            (attemptSignal) => this.streamGenerateContentWithAccount(account, geminiCompletionRequest, isRetry, attemptSignal),
+            this.retryOptions,
+            signal
+        ));
+    }
+
+    /**
+     * Stream raw Gemini responses with one account
+     */
+    private async* streamGenerateContentWithAccount(
+        account: Account,
+        geminiCompletionRequest: Gemini.ChatCompletionRequest,
+        isRetry: boolean,
+        signal?: AbortSignal,
+    ): AsyncGenerator<Gemini.Response> {
+        const request = await this.withAccountProject(geminiCompletionRequest, account);
+        const {token} = await account.authClient.getAccessToken();
         const response = await fetch(
-            `${CODE_ASSIST_ENDPOINT}/${CODE_ASSIST_API_VERSION}:streamGenerateContent?alt=sse`,
+            `${this.endpoint}/${CODE_ASSIST_API_VERSION}:streamGenerateContent?alt=sse`,
             {
                 method: "POST",
                 headers: {
                     "Content-Type": "application/json",
                     Authorization: `Bearer ${token}`,
                 },
-                body: JSON.stringify(geminiCompletionRequest),
+                body: JSON.stringify(request),
+                signal,
             },
         );
 
         if (!response.ok) {
             if (response.status === 401 && !isRetry) {
                 this.logger.info("Got 401 error, forcing token refresh and retrying...");
-                this.authClient.credentials.access_token = undefined;
-                yield* this.streamContentInternal(geminiCompletionRequest, true);
+                account.authClient.credentials.access_token = undefined;
+                yield* this.streamGenerateContentWithAccount(account, geminiCompletionRequest, true, signal);
                 return;
             }
             const errorText = await response.text();
             throw new GeminiApiError(
                 `Stream request failed: ${response.status} ${errorText}`,
                 response.status,
-                errorText
+                errorText,
+                parseRetryDelay(response.headers.get("retry-after"), errorText)
             );
         }
 
@@ -277,307 +430,567 @@ export class GeminiApiClient {
             throw new Error("Response has no body");
         }
 
-        let toolCallId: string | undefined = undefined;
+        yield* this.parseSSEStream(response.body, signal);
+    }
+
+    /**
+     * Streams one model without switching. Rate limited accounts are switched to the next account of the pool
+     * and transient failures are retried with the same account, both only before the first chunk.
+     */
+    private streamContentInternal(
+        geminiCompletionRequest: Gemini.ChatCompletionRequest,
+        turn: number,
+        isRetry: boolean = false,
+        signal?: AbortSignal,
+    ): AsyncGenerator<OpenAI.StreamChunk> {
+        return this.accountPool.withStreamAccount(geminiCompletionRequest.model, (account) => withStreamRetry(
+            (attemptSignal) => this.streamContentAttempt(geminiCompletionRequest, account, isRetry, attemptSignal),
+            this.retryOptions,
+            signal
+        ), turn);
+    }
+
+    /**
+     * Streams one attempt of a request, every attempt starts a new session
+     */
+    private async* streamContentAttempt(
+        geminiCompletionRequest: Gemini.ChatCompletionRequest,
+        account: Account,
+        isRetry: boolean,
+        signal: AbortSignal,
+    ): AsyncGenerator<OpenAI.StreamChunk> {
+        const model = geminiCompletionRequest.model;
+        const session = new StreamSession(model, account, signal);
+        const candidateCount = geminiCompletionRequest.request.generationConfig?.candidateCount ?? 1;
+        if (candidateCount <= 1) {
+            yield* this.streamChoices(geminiCompletionRequest, session, isRetry);
+            return;
+        }
+
+        if (!this.candidateCountUnsupported.has(model)) {
+            try {
+                yield* this.streamChoices(geminiCompletionRequest, session, isRetry);
+                return;
+            } catch (error) {
+                // The backend rejects the request up front, before any chunk was streamed
+                if (!this.isCandidateCountUnsupported(error)) {
+                    throw error;
+                }
+                this.logger.info(`${model} does not support candidateCount, requesting ${candidateCount} choices in parallel`);
+                this.candidateCountUnsupported.add(model);
+            }
+        }
+
+        yield* this.streamParallelChoices(geminiCompletionRequest, session, candidateCount, isRetry);
+    }
+
+    /**
+     * Whether the backend rejected a request because it asks for more than one candidate
+     */
+    private isCandidateCountUnsupported(error: unknown): boolean {
+        if (!(error instanceof GeminiApiError) || error.statusCode !== 400) {
+            return false;
+        }
+        const status = parseGoogleRpcStatus(error.responseText);
+        return status?.status === "INVALID_ARGUMENT" && CANDIDATE_COUNT_UNSUPPORTED_MESSAGE.test(status.message ?? "");
+    }
+
+    /**
+     * Streams every choice from its own single candidate request, summing up their usage
+     */
+    private async* streamParallelChoices(
+        geminiCompletionRequest: Gemini.ChatCompletionRequest,
+        session: StreamSession,
+        candidateCount: number,
+        isRetry: boolean,
+    ): AsyncGenerator<OpenAI.StreamChunk> {
+        const generationConfig = {...geminiCompletionRequest.request.generationConfig};
+        delete generationConfig.candidateCount;
+        const singleRequest: Gemini.ChatCompletionRequest = {
+            ...geminiCompletionRequest,
+            request: {...geminiCompletionRequest.request, generationConfig},
+        };
+
+        // Every request streams a single candidate, which becomes the choice at its own position
+        const streams = Array.from({length: candidateCount}, (_, index) => this.streamChoices(singleRequest, session, isRetry, index));
         let usageData: OpenAI.UsageData | undefined;
-        let _thinkingInProgress = false;
+        for await (const {value: chunk} of mergeStreams(streams)) {
+            if (chunk.usage) {
+                usageData = this.addUsage(usageData, chunk.usage);
+                chunk.usage = null;
+            }
+            yield chunk;
+        }
 
-        // Track thought signature and text for caching
-        let currentThoughtSignature: string | undefined = undefined;
-        let accumulatedThoughtText = "";
+        if (usageData) {
+            yield {...session.createChunk({}), choices: [], usage: usageData};
+        }
+    }
 
-        // Buffer for parsing <thinking> tags from content (handles streaming chunks)
-        let thinkingTagBuffer = "";
-        let insideThinkingTag = false;
+    /**
+     * Streams the choices of one generate content request, candidate indices are shifted by indexOffset
+     */
+    private async* streamChoices(
+        geminiCompletionRequest: Gemini.ChatCompletionRequest,
+        session: StreamSession,
+        isRetry: boolean,
+        indexOffset: number = 0,
+    ): AsyncGenerator<OpenAI.StreamChunk> {
+        const states = new Set<ChoiceState>();
+        let usageData: OpenAI.UsageData | undefined;
 
-        for await (const jsonData of this.parseSSEStream(response.body)) {
-            const candidate = jsonData.response?.candidates?.[0];
+        const request: Gemini.ChatCompletionRequest = {
+            ...geminiCompletionRequest,
+            request: addFunctionCallArgumentStreaming(
+                addNativeTools(geminiCompletionRequest.request, this.nativeTools),
+                this.streamFunctionCallArguments && modelRegistry.supportsStreamFunctionCallArguments(geminiCompletionRequest.model)
+            ),
+        };
 
-            // Debug logging (only shown with --log-level debug)
-            if (this.logger.isDebugEnabled() && candidate?.content?.parts) {
-                const partsArray = candidate.content.parts as Gemini.Part[];
-                const hasThought = partsArray.some((p: Gemini.Part) => "text" in p && (p as Gemini.TextPart).thought);
-                const hasFunctionCall = partsArray.some((p: Gemini.Part) => "functionCall" in p);
+        for await (const jsonData of this.streamGenerateContentWithAccount(session.account, request, isRetry, session.signal)) {
+            const promptFeedback = jsonData.response?.promptFeedback;
+            if (promptFeedback?.blockReason) {
+                throw new GeminiResponseError(
+                    `Prompt was blocked by Gemini: ${promptFeedback.blockReasonMessage ?? this.describeSafetyBlock(promptFeedback.blockReason, promptFeedback.safetyRatings)}`,
+                    400,
+                    promptFeedback.blockReason
+                );
+            }
 
-                // Only log full structure for thinking or function call parts
-                if (hasThought || hasFunctionCall) {
-                    this.logger.debug(`Full candidate content: ${JSON.stringify(candidate.content, null, 2).substring(0, 1000)}`);
-                }
+            for (const candidate of jsonData.response?.candidates ?? []) {
+                const state = session.choice(indexOffset + (candidate.index ?? 0));
+                states.add(state);
+                yield* this.streamCandidate(candidate, state, session);
             }
 
-            if (candidate?.content?.parts) {
-                const partsArray = candidate.content.parts as Gemini.Part[];
-
-                for (const part of partsArray) {
-                    if ("text" in part) {
-                        // Handle text content
-                        if (part.thought === true) {
-                            // Handle thinking content from Gemini
-                            const thinkingText = part.text;
-
-                            // Capture signature and accumulate thought text for caching
-                            // Check both naming conventions (Gemini uses thoughtSignature in REST API)
-                            const textPart = part as Gemini.TextPart;
-                            const sig = textPart.thought_signature || textPart.thoughtSignature;
-                            if (sig) {
-                                currentThoughtSignature = sig;
-                                this.logger.debug("Found signature on thought text part");
-                            }
-                            accumulatedThoughtText += thinkingText;
-
-                            // Send thinking content using Anthropic-style fields that VS Code Copilot expects
-                            // See: vscode-copilot-chat/src/platform/thinking/common/thinking.ts (RawThinkingDelta)
-                            // - thinking: string (text content)
-                            // - signature: string (ID for multi-turn conversations)
-                            const thinkingDelta: OpenAI.StreamDelta = {
-                                thinking: thinkingText,
-                            };
-
-                            // Include signature - required for multi-turn conversations with tool calls
-                            if (currentThoughtSignature) {
-                                thinkingDelta.signature = currentThoughtSignature;
-                            }
+            if (jsonData.response?.usageMetadata) {
+                usageData = this.mapUsageMetadata(jsonData.response.usageMetadata);
+            }
+        }
 
-                            if (this.firstChunk) {
-                                thinkingDelta.role = "assistant";
-                                this.firstChunk = false;
-                            }
+        // Send a final chunk per choice, the last one carries the usage data
+        const finalStates = states.size > 0
+            ? [...states].sort((a, b) => a.index - b.index)
+            : [session.choice(indexOffset)];
+        for (const [position, state] of finalStates.entries()) {
+            this.cacheThoughtSignature(state);
+            const finishReason = mapFinishReasonToOpenAI(state.finishReason, state.toolCallIds.length > 0);
+            const finalChunk = session.createChunk({}, state.index, finishReason);
+
+            if (usageData && position === finalStates.length - 1) {
+                finalChunk.usage = usageData;
+            }
 
-                            _thinkingInProgress = true;
-                            yield this.createOpenAIChunk(thinkingDelta, geminiCompletionRequest.model);
-                        } else {
-                            // Handle regular content - check for <thinking> tags
-                            let text = part.text;
-
-                            // Process text to extract any <thinking> blocks
-                            // This handles cases where thinking comes as raw text with tags
-                            while (text.length > 0) {
-                                if (insideThinkingTag) {
-                                    // We're inside a thinking block, look for closing tag
-                                    const closeIndex = text.indexOf("</thinking>");
-                                    if (closeIndex !== -1) {
-                                        // Found closing tag - emit thinking content
-                                        const thinkingContent = thinkingTagBuffer + text.substring(0, closeIndex);
-                                        thinkingTagBuffer = "";
-                                        insideThinkingTag = false;
-                                        _thinkingInProgress = false;
-
-                                        // Emit thinking via proper delta field
-                                        const thinkingDelta: OpenAI.StreamDelta = {
-                                            thinking: thinkingContent,
-                                        };
-                                        if (currentThoughtSignature) {
-                                            thinkingDelta.signature = currentThoughtSignature;
-                                        }
-                                        if (this.firstChunk) {
-                                            thinkingDelta.role = "assistant";
-                                            this.firstChunk = false;
-                                        }
-                                        accumulatedThoughtText += thinkingContent;
-                                        yield this.createOpenAIChunk(thinkingDelta, geminiCompletionRequest.model);
+            yield finalChunk;
+        }
+    }
 
-                                        // Continue processing remaining text after </thinking>
-                                        text = text.substring(closeIndex + "</thinking>".length);
-                                    } else {
-                                        // No closing tag yet, buffer the content
-                                        thinkingTagBuffer += text;
-                                        text = "";
+    /**
+     * Maps the parts of one streamed candidate to OpenAI chunks of its choice
+     */
+    private async* streamCandidate(
+        candidate: Gemini.Candidate,
+        state: ChoiceState,
+        session: StreamSession,
+    ): AsyncGenerator<OpenAI.StreamChunk> {
+        const chunk = (delta: OpenAI.StreamDelta) => session.createChunk(delta, state.index);
+
+        // Debug logging (only shown with --log-level debug)
+        if (this.logger.isDebugEnabled() && candidate.content?.parts) {
+            const partsArray = candidate.content.parts as Gemini.Part[];
+            const hasThought = partsArray.some((p: Gemini.Part) => "text" in p && (p as Gemini.TextPart).thought);
+            const hasFunctionCall = partsArray.some((p: Gemini.Part) => "functionCall" in p);
+
+            // Only log full structure for thinking or function call parts
+            if (hasThought || hasFunctionCall) {
+                this.logger.debug(`Full candidate content: ${JSON.stringify(candidate.content, null, 2).substring(0, 1000)}`);
+            }
+        }
+
+        if (candidate.content?.parts) {
+            const partsArray = candidate.content.parts as Gemini.Part[];
+
+            for (const part of partsArray) {
+                if ("text" in part) {
+                    // Handle text content
+                    if (part.thought === true) {
+                        // Handle thinking content from Gemini
+                        const thinkingText = part.text;
+
+                        // Capture signature and accumulate thought text for caching
+                        // Check both naming conventions (Gemini uses thoughtSignature in REST API)
+                        const textPart = part as Gemini.TextPart;
+                        const sig = textPart.thought_signature || textPart.thoughtSignature;
+                        if (sig) {
+                            state.currentThoughtSignature = sig;
+                            this.logger.debug("Found signature on thought text part");
+                        }
+                        state.accumulatedThoughtText += thinkingText;
+
+                        // Send thinking content using Anthropic-style fields that VS Code Copilot expects
+                        // See: vscode-copilot-chat/src/platform/thinking/common/thinking.ts (RawThinkingDelta)
+                        // - thinking: string (text content)
+                        // - signature: string (ID for multi-turn conversations)
+                        const thinkingDelta: OpenAI.StreamDelta = {
+                            thinking: thinkingText,
+                        };
+
+                        // Include signature - required for multi-turn conversations with tool calls
+                        if (state.currentThoughtSignature) {
+                            thinkingDelta.signature = state.currentThoughtSignature;
+                        }
+
+                        if (state.firstChunk) {
+                            thinkingDelta.role = "assistant";
+                            state.firstChunk = false;
+                        }
+
+                        yield chunk(thinkingDelta);
+                    } else {
+                        // Handle regular content - check for <thinking> tags
+                        let text = part.text;
+
+                        // Process text to extract any <thinking> blocks
+                        // This handles cases where thinking comes as raw text with tags
+                        while (text.length > 0) {
+                            if (state.insideThinkingTag) {
+                                // We're inside a thinking block, look for closing tag
+                                const closeIndex = text.indexOf("</thinking>");
+                                if (closeIndex !== -1) {
+                                    // Found closing tag - emit thinking content
+                                    const thinkingContent = state.thinkingTagBuffer + text.substring(0, closeIndex);
+                                    state.thinkingTagBuffer = "";
+                                    state.insideThinkingTag = false;
+
+                                    // Emit thinking via proper delta field
+                                    const thinkingDelta: OpenAI.StreamDelta = {
+                                        thinking: thinkingContent,
+                                    };
+                                    if (state.currentThoughtSignature) {
+                                        thinkingDelta.signature = state.currentThoughtSignature;
+                                    }
+                                    if (state.firstChunk) {
+                                        thinkingDelta.role = "assistant";
+                                        state.firstChunk = false;
                                     }
+                                    state.accumulatedThoughtText += thinkingContent;
+                                    yield chunk(thinkingDelta);
+
+                                    // Continue processing remaining text after </thinking>
+                                    text = text.substring(closeIndex + "</thinking>".length);
                                 } else {
-                                    // Look for opening <thinking> tag
-                                    const openIndex = text.indexOf("<thinking>");
-                                    if (openIndex !== -1) {
-                                        // Found opening tag
-                                        const beforeThinking = text.substring(0, openIndex);
-
-                                        // Emit any content before the thinking tag
-                                        if (beforeThinking.length > 0) {
-                                            const delta: OpenAI.StreamDelta = {content: beforeThinking};
-                                            if (this.firstChunk) {
-                                                delta.role = "assistant";
-                                                this.firstChunk = false;
-                                            }
-                                            yield this.createOpenAIChunk(delta, geminiCompletionRequest.model);
-                                        }
+                                    // No closing tag yet, buffer the content
+                                    state.thinkingTagBuffer += text;
+                                    text = "";
+                                }
+                            } else {
+                                // A partial opening tag buffered from the previous chunk continues here
+                                if (state.thinkingTagBuffer.length > 0) {
+                                    text = state.thinkingTagBuffer + text;
+                                    state.thinkingTagBuffer = "";
+                                }
 
-                                        // Start buffering thinking content
-                                        insideThinkingTag = true;
-                                        _thinkingInProgress = true;
-                                        text = text.substring(openIndex + "<thinking>".length);
-                                    } else {
-                                        // Check for partial opening tag at end of chunk
-                                        // (e.g., text ends with "<thin" which might continue with "king>" in next chunk)
-                                        let partialTagStart = -1;
-                                        const possibleStarts = ["<", "<t", "<th", "<thi", "<thin", "<think", "<thinki", "<thinkin", "<thinking"];
-                                        for (const start of possibleStarts) {
-                                            if (text.endsWith(start)) {
-                                                partialTagStart = text.length - start.length;
-                                                break;
-                                            }
+                                // Look for opening <thinking> tag
+                                const openIndex = text.indexOf("<thinking>");
+                                if (openIndex !== -1) {
+                                    // Found opening tag
+                                    const beforeThinking = text.substring(0, openIndex);
+
+                                    // Emit any content before the thinking tag
+                                    if (beforeThinking.length > 0) {
+                                        const delta: OpenAI.StreamDelta = {content: beforeThinking};
+                                        if (state.firstChunk) {
+                                            delta.role = "assistant";
+                                            state.firstChunk = false;
                                         }
+                                        yield chunk(delta);
+                                    }
 
-                                        if (partialTagStart !== -1) {
-                                            // Emit content before potential partial tag
-                                            const safeContent = text.substring(0, partialTagStart);
-                                            if (safeContent.length > 0) {
-                                                const delta: OpenAI.StreamDelta = {content: safeContent};
-                                                if (this.firstChunk) {
-                                                    delta.role = "assistant";
-                                                    this.firstChunk = false;
-                                                }
-                                                yield this.createOpenAIChunk(delta, geminiCompletionRequest.model);
-                                            }
-                                            // Buffer the potential partial tag
-                                            thinkingTagBuffer = text.substring(partialTagStart);
-                                        } else {
-                                            // No thinking tags, emit as regular content
-                                            // But first check if we have buffered content that wasn't a tag
-                                            if (thinkingTagBuffer.length > 0) {
-                                                text = thinkingTagBuffer + text;
-                                                thinkingTagBuffer = "";
-                                            }
+                                    // Start buffering thinking content
+                                    state.insideThinkingTag = true;
+                                    text = text.substring(openIndex + "<thinking>".length);
+                                } else {
+                                    // Check for partial opening tag at end of chunk
+                                    // (e.g., text ends with "<thin" which might continue with "king>" in next chunk)
+                                    let partialTagStart = -1;
+                                    const possibleStarts = ["<", "<t", "<th", "<thi", "<thin", "<think", "<thinki", "<thinkin", "<thinking"];
+                                    for (const start of possibleStarts) {
+                                        if (text.endsWith(start)) {
+                                            partialTagStart = text.length - start.length;
+                                            break;
+                                        }
+                                    }
 
-                                            _thinkingInProgress = false;
-                                            const delta: OpenAI.StreamDelta = {content: text};
-                                            if (this.firstChunk) {
+                                    if (partialTagStart !== -1) {
+                                        // Emit content before potential partial tag
+                                        const safeContent = text.substring(0, partialTagStart);
+                                        if (safeContent.length > 0) {
+                                            const delta: OpenAI.StreamDelta = {content: safeContent};
+                                            if (state.firstChunk) {
                                                 delta.role = "assistant";
-                                                this.firstChunk = false;
+                                                state.firstChunk = false;
                                             }
-                                            yield this.createOpenAIChunk(delta, geminiCompletionRequest.model);
+                                            yield chunk(delta);
                                         }
-                                        text = "";
+                                        // Buffer the potential partial tag
+                                        state.thinkingTagBuffer = text.substring(partialTagStart);
+                                    } else {
+                                        // No thinking tags, emit as regular content
+                                        const delta: OpenAI.StreamDelta = {content: text};
+                                        if (state.firstChunk) {
+                                            delta.role = "assistant";
+                                            state.firstChunk = false;
+                                        }
+                                        yield chunk(delta);
                                     }
+                                    text = "";
                                 }
                             }
                         }
                     }
-                    else if ("functionCall" in part) {
-                        // Handle function calls from Gemini
-                        _thinkingInProgress = false;
-
-                        // FunctionCallPart can also have thought_signature directly on it
-                        // Check both naming conventions (Gemini uses thoughtSignature in REST API)
-                        const funcPart = part as Gemini.FunctionCallPart;
-                        const funcSig = funcPart.thought_signature || funcPart.thoughtSignature;
-                        if (funcSig && !currentThoughtSignature) {
-                            currentThoughtSignature = funcSig;
-                            this.logger.debug(`Found signature on functionCall part: ${funcSig.substring(0, 50)}...`);
-                        }
+                }
+                else if ("functionCall" in part) {
+                    // Handle function calls from Gemini
+
+                    // FunctionCallPart can also have thought_signature directly on it
+                    // Check both naming conventions (Gemini uses thoughtSignature in REST API)
+                    const funcPart = part as Gemini.FunctionCallPart;
+                    const funcSig = funcPart.thought_signature || funcPart.thoughtSignature;
+                    const isNewSignature = !!funcSig && !state.currentThoughtSignature;
+                    if (funcSig && isNewSignature) {
+                        state.currentThoughtSignature = funcSig;
+                        this.logger.debug(`Found signature on functionCall part: ${funcSig.substring(0, 50)}...`);
+                    }
 
-                        toolCallId = `call_${crypto.randomUUID()}`;
+                    const functionCall = part.functionCall as Gemini.StreamedFunctionCall;
+                    const streamedCall = state.streamedToolCall;
 
-                        // Cache the thought signature with this tool_call_id
-                        // This allows us to restore it when the message comes back in the history
-                        if (currentThoughtSignature) {
-                            signatureCache.store(toolCallId, currentThoughtSignature, accumulatedThoughtText);
-                            this.logger.debug(`Cached signature for tool_call_id: ${toolCallId}`);
-                        } else {
-                            this.logger.debug(`No signature to cache for tool_call_id: ${toolCallId}`);
+                    // A part without a name continues the arguments of the call being streamed
+                    if (streamedCall && !functionCall.name) {
+                        let args = (functionCall.partialArgs ?? []).map((partialArg) => streamedCall.serializer.write(partialArg)).join("");
+                        if (!functionCall.willContinue) {
+                            args += streamedCall.serializer.end();
+                            state.streamedToolCall = undefined;
+                        }
+                        if (args) {
+                            yield chunk({tool_calls: [{index: streamedCall.index, function: {arguments: args}}]});
                         }
+                        continue;
+                    }
+                    yield* this.endStreamedToolCall(state, chunk);
+
+                    // Parallel calls of a turn are numbered in the order Gemini sends them
+                    const toolCallId = `call_${crypto.randomUUID()}`;
+                    state.toolCallIds.push(toolCallId);
+                    const index = state.toolCallIds.length - 1;
+
+                    let args: string;
+                    if (functionCall.willContinue) {
+                        const serializer = new PartialArgsSerializer();
+                        state.streamedToolCall = {index, serializer};
+                        args = (functionCall.partialArgs ?? []).map((partialArg) => serializer.write(partialArg)).join("");
+                    } else {
+                        args = JSON.stringify(functionCall.args ?? {});
+                    }
 
-                        const delta: OpenAI.StreamDelta = {
-                            tool_calls: [{
-                                index: 0,
-                                id: toolCallId,
-                                type: "function",
-                                function: {
-                                    name: part.functionCall.name,
-                                    arguments: JSON.stringify(part.functionCall.args)
-                                }
-                            }]
-                        };
+                    const delta: OpenAI.StreamDelta = {
+                        tool_calls: [{
+                            index,
+                            id: toolCallId,
+                            type: "function",
+                            function: {
+                                name: functionCall.name ?? "",
+                                arguments: args
+                            }
+                        }]
+                    };
 
-                        if (this.firstChunk) {
-                            delta.role = "assistant";
-                            delta.content = null;
-                            this.firstChunk = false;
-                        }
+                    // Gemini usually signs the turn on its first function call, after the thought text
+                    if (isNewSignature) {
+                        delta.signature = funcSig;
+                    }
 
-                        yield this.createOpenAIChunk(delta, geminiCompletionRequest.model);
+                    if (state.firstChunk) {
+                        delta.role = "assistant";
+                        delta.content = null;
+                        state.firstChunk = false;
                     }
+
+                    yield chunk(delta);
                 }
             }
+        }
 
-            if (jsonData.response?.usageMetadata) {
-                const usage = jsonData.response.usageMetadata;
-                const prompt_tokens = usage.promptTokenCount ?? 0;
-                const completion_tokens = usage.candidatesTokenCount ?? 0;
-                usageData = {
-                    prompt_tokens,
-                    completion_tokens,
-                    total_tokens: prompt_tokens + completion_tokens,
-                };
+        // The arguments of a streamed call are complete at the latest when the candidate finishes
+        if (candidate.finishReason) {
+            yield* this.endStreamedToolCall(state, chunk);
+        }
+
+        if (candidate.finishReason === "MALFORMED_FUNCTION_CALL") {
+            throw new GeminiResponseError(
+                `Gemini generated a malformed function call${candidate.finishMessage ? `: ${candidate.finishMessage}` : ""}`,
+                502,
+                candidate.finishReason
+            );
+        }
+        if (candidate.finishReason) {
+            state.finishReason = candidate.finishReason;
+            if (candidate.safetyRatings?.some((rating) => rating.blocked)) {
+                this.logger.warn(`Response was stopped by Gemini: ${this.describeSafetyBlock(candidate.finishReason, candidate.safetyRatings)}`);
             }
         }
 
-        // Send final chunk with usage data
-        const finishReason = toolCallId ? "tool_calls" : "stop";
-        const finalChunk = this.createOpenAIChunk({}, geminiCompletionRequest.model, finishReason);
+        // Grounding metadata of native tools usually arrives with the last candidate
+        const groundingDelta = mapGroundingToStreamDelta(candidate);
+        if (groundingDelta) {
+            if (state.firstChunk) {
+                groundingDelta.role = "assistant";
+                state.firstChunk = false;
+            }
+            yield chunk(groundingDelta);
+        }
+    }
 
-        if (usageData) {
-            finalChunk.usage = usageData;
+    /**
+     * Completes the arguments of a call whose end Gemini did not signal before the next part
+     */
+    private* endStreamedToolCall(
+        state: ChoiceState,
+        chunk: (delta: OpenAI.StreamDelta) => OpenAI.StreamChunk,
+    ): Generator<OpenAI.StreamChunk> {
+        const streamedCall = state.streamedToolCall;
+        if (streamedCall) {
+            state.streamedToolCall = undefined;
+            yield chunk({tool_calls: [{index: streamedCall.index, function: {arguments: streamedCall.serializer.end()}}]});
         }
+    }
 
-        yield finalChunk;
+    /**
+     * Caches the thought signature of a finished turn under the id of every tool call in it.
+     * Gemini signs only the first call of a parallel turn, but clients may send any of them back first.
+     */
+    private cacheThoughtSignature(state: ChoiceState): void {
+        if (state.toolCallIds.length === 0) {
+            return;
+        }
+        if (!state.currentThoughtSignature) {
+            this.logger.debug(`No signature to cache for tool_call_ids: ${state.toolCallIds.join(", ")}`);
+            return;
+        }
+        for (const toolCallId of state.toolCallIds) {
+            signatureCache.store(toolCallId, state.currentThoughtSignature, state.accumulatedThoughtText);
+        }
+        this.logger.debug(`Cached signature for tool_call_ids: ${state.toolCallIds.join(", ")}`);
     }
 
     /**
-     * Creates an OpenAI stream chunk with the given delta
+     * Maps Gemini usage metadata to OpenAI usage, thinking tokens count as completion tokens
      */
-    private createOpenAIChunk(delta: OpenAI.StreamDelta, modelId: string, finishReason: string | null = null): OpenAI.StreamChunk {
-        return {
-            id: this.chatID,
-            object: OPENAI_CHAT_COMPLETION_OBJECT,
-            created: this.creationTime,
-            model: modelId,
-            choices: [{
-                index: 0,
-                delta,
-                finish_reason: finishReason,
-                logprobs: null
-            }],
-            usage: null
+    private mapUsageMetadata(usage: Gemini.UsageMetadata): OpenAI.UsageData {
+        const prompt_tokens = usage.promptTokenCount ?? 0;
+        const completion_tokens = (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+        const usageData: OpenAI.UsageData = {
+            prompt_tokens,
+            completion_tokens,
+            total_tokens: prompt_tokens + completion_tokens,
+        };
+
+        if (usage.cachedContentTokenCount !== undefined) {
+            usageData.prompt_tokens_details = {cached_tokens: usage.cachedContentTokenCount};
+        }
+        if (usage.thoughtsTokenCount !== undefined) {
+            usageData.completion_tokens_details = {reasoning_tokens: usage.thoughtsTokenCount};
+        }
+
+        return usageData;
+    }
+
+    /**
+     * Describes a block reason together with the safety categories that caused it
+     */
+    private describeSafetyBlock(reason: string, safetyRatings: Gemini.SafetyRating[] = []): string {
+        const categories = safetyRatings.filter((rating) => rating.blocked).map((rating) => rating.category);
+        return categories.length > 0 ? `${reason} (${categories.join(", ")})` : reason;
+    }
+
+    /**
+     * Adds the usage of one more request, details are kept when either side reports them
+     */
+    private addUsage(total: OpenAI.UsageData | undefined, usage: OpenAI.UsageData): OpenAI.UsageData {
+        if (!total) {
+            return usage;
+        }
+
+        const sum: OpenAI.UsageData = {
+            prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+            completion_tokens: total.completion_tokens + usage.completion_tokens,
+            total_tokens: total.total_tokens + usage.total_tokens,
         };
+        if (total.prompt_tokens_details || usage.prompt_tokens_details) {
+            sum.prompt_tokens_details = {
+                cached_tokens: (total.prompt_tokens_details?.cached_tokens ?? 0) + (usage.prompt_tokens_details?.cached_tokens ?? 0),
+            };
+        }
+        if (total.completion_tokens_details || usage.completion_tokens_details) {
+            sum.completion_tokens_details = {
+                reasoning_tokens: (total.completion_tokens_details?.reasoning_tokens ?? 0) + (usage.completion_tokens_details?.reasoning_tokens ?? 0),
+            };
+        }
+        return sum;
     }
 
     /**
      * Parses a server-sent event (SSE) stream from the Gemini API.
      */
-    private async* parseSSEStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<Gemini.Response> {
+    private async* parseSSEStream(stream: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<Gemini.Response> {
         const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
         let buffer = "";
         let objectBuffer = "";
 
-        while (true) {
-            const {done, value} = await reader.read();
-            if (done) {
-                if (objectBuffer) {
-                    try {
-                        yield JSON.parse(objectBuffer);
-                    } catch (e) {
-                        this.logger.error("Error parsing final SSE JSON object", e);
-                    }
-                }
-                break;
-            }
-
-            buffer += value;
-            const lines = buffer.split("\n");
-            buffer = lines.pop() || "";
+        // Stops a pending read as soon as the request is cancelled
+        const cancel = () => {
+            reader.cancel(signal?.reason).catch(() => undefined);
+        };
+        signal?.addEventListener("abort", cancel);
 
-            for (const line of lines) {
-                if (line.trim() === "") {
+        try {
+            while (true) {
+                signal?.throwIfAborted();
+                const {done, value} = await reader.read();
+                if (done) {
                     if (objectBuffer) {
                         try {
                             yield JSON.parse(objectBuffer);
                         } catch (e) {
-                            this.logger.error("Error parsing SSE JSON object", e);
+                            this.logger.error("Error parsing final SSE JSON object", e);
+                        }
+                    }
+                    break;
+                }
+
+                buffer += value;
+                const lines = buffer.split("\n");
+                buffer = lines.pop() || "";
+
+                for (const line of lines) {
+                    if (line.trim() === "") {
+                        if (objectBuffer) {
+                            try {
+                                yield JSON.parse(objectBuffer);
+                            } catch (e) {
+                                this.logger.error("Error parsing SSE JSON object", e);
+                            }
+                            objectBuffer = "";
                         }
-                        objectBuffer = "";
+                    } else if (line.startsWith("data: ")) {
+                        objectBuffer += line.substring(6);
                     }
-                } else if (line.startsWith("data: ")) {
-                    objectBuffer += line.substring(6);
                 }
             }
+        } finally {
+            signal?.removeEventListener("abort", cancel);
+            // Releases the upstream connection when the consumer stopped reading early
+            cancel();
         }
     }
 }
@@ -0,0 +1,131 @@
+import {describe, it, expect} from "vitest";
+import {GeminiApiError, GeminiResponseError, parseRetryDelay, toAnthropicError, toGeminiError, toOpenAIError, translateError} from "./errors.js";
+import {ModelNotFoundError} from "./model-registry.js";
+import {UpstreamTimeoutError} from "./retry.js";
+
+// Error body of a rate limited Code Assist request
+const QUOTA_EXCEEDED = JSON.stringify([{
+    error: {
+        code: 429,
+        message: "Resource has been exhausted (e.g. check quota).",
+        status: "RESOURCE_EXHAUSTED",
+        details: [
+            {"@type": "type.googleapis.com/google.rpc.ErrorInfo", reason: "RATE_LIMIT_EXCEEDED", domain: "cloudcode-pa.googleapis.com"},
+            {"@type": "type.googleapis.com/google.rpc.QuotaFailure", violations: [{subject: "gemini-2.5-pro", description: "Requests per minute exceeded."}]},
+            {"@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "12.5s"},
+        ],
+    },
+}]);
+
+const rateLimited = () => new GeminiApiError(`Stream request failed: 429 ${QUOTA_EXCEEDED}`, 429, QUOTA_EXCEEDED, parseRetryDelay(null, QUOTA_EXCEEDED));
+
+describe("parseRetryDelay", () => {
+    it("should parse Retry-After in seconds and as HTTP date", () => {
+        expect(parseRetryDelay("30")).toBe(30000);
+        const delay = parseRetryDelay(new Date(Date.now() + 60000).toUTCString());
+        expect(delay).toBeGreaterThan(58000);
+        expect(delay).toBeLessThanOrEqual(60000);
+    });
+
+    it("should parse the RetryInfo detail of a Google error body", () => {
+        const body = {
+            error: {
+                code: 429,
+                status: "RESOURCE_EXHAUSTED",
+                details: [
+                    {"@type": "type.googleapis.com/google.rpc.ErrorInfo", reason: "RATE_LIMIT_EXCEEDED"},
+                    {"@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "37.5s"},
+                ],
+            },
+        };
+        expect(parseRetryDelay(null, JSON.stringify(body))).toBe(37500);
+        expect(parseRetryDelay(null, JSON.stringify([body]))).toBe(37500);
+    });
+
+    it("should return undefined when upstream does not say when to retry", () => {
+        expect(parseRetryDelay(null, "Too many requests")).toBeUndefined();
+        expect(parseRetryDelay(null, JSON.stringify({error: {code: 429}}))).toBeUndefined();
+    });
+});
+
+
+describe("translateError", () => {
+    it("should describe Code Assist errors by their google.rpc.Status", () => {
+        expect(translateError(rateLimited())).toEqual({
+            statusCode: 429,
+            message: "Resource has been exhausted (e.g. check quota). Requests per minute exceeded.",
+            reason: "RATE_LIMIT_EXCEEDED",
+            retryAfterMs: 12500,
+        });
+    });
+
+    it("should keep the message of errors without a Google error body", () => {
+        expect(translateError(new GeminiApiError("Bad gateway", 502, "<html>"))).toEqual({statusCode: 502, message: "Bad gateway", reason: undefined, retryAfterMs: undefined});
+        expect(translateError(new Error("boom"))).toEqual({statusCode: 500, message: "boom"});
+    });
+
+    it("should report timeouts, unknown models and refusals with their own status", () => {
+        expect(translateError(new UpstreamTimeoutError(1000)).statusCode).toBe(504);
+        expect(translateError(new ModelNotFoundError("llama-3")).statusCode).toBe(404);
+        expect(translateError(new GeminiResponseError("Prompt was blocked", 400, "SAFETY"))).toMatchObject({statusCode: 400, reason: "SAFETY"});
+    });
+});
+
+describe("toOpenAIError", () => {
+    it("should report rate limits like OpenAI with retry-after headers", () => {
+        expect(toOpenAIError(rateLimited())).toEqual({
+            statusCode: 429,
+            headers: {"retry-after": "13", "retry-after-ms": "12500"},
+            body: {
+                error: {
+                    message: "Resource has been exhausted (e.g. check quota). Requests per minute exceeded.",
+                    type: "requests",
+                    param: null,
+                    code: "rate_limit_exceeded",
+                },
+            },
+        });
+    });
+
+    it("should report unknown models as invalid model parameter", () => {
+        expect(toOpenAIError(new ModelNotFoundError("llama-3")).body.error).toEqual({
+            message: "The model `llama-3` does not exist",
+            type: "invalid_request_error",
+            param: "model",
+            code: "model_not_found",
+        });
+    });
+
+    it("should report upstream failures as server errors", () => {
+        expect(toOpenAIError(new GeminiApiError("Bad gateway", 502))).toMatchObject({statusCode: 502, headers: {}, body: {error: {type: "server_error"}}});
+    });
+});
+
+describe("toAnthropicError", () => {
+    it("should map the status to the Anthropic error type", () => {
+        expect(toAnthropicError(rateLimited())).toEqual({
+            statusCode: 429,
+            headers: {"retry-after": "13", "retry-after-ms": "12500"},
+            body: {type: "error", error: {type: "rate_limit_error", message: "Resource has been exhausted (e.g. check quota). Requests per minute exceeded."}},
+        });
+        expect(toAnthropicError(new GeminiApiError("Unavailable", 503)).body.error.type).toBe("overloaded_error");
+        expect(toAnthropicError(new GeminiApiError("Forbidden", 403)).body.error.type).toBe("permission_error");
+        expect(toAnthropicError(new UpstreamTimeoutError(1000)).body.error.type).toBe("api_error");
+    });
+});
+
+describe("toGeminiError", () => {
+    it("should pass on the google.rpc.Status of Code Assist errors", () => {
+        expect(toGeminiError(rateLimited())).toEqual({
+            statusCode: 429,
+            headers: {"retry-after": "13", "retry-after-ms": "12500"},
+            body: {error: JSON.parse(QUOTA_EXCEEDED)[0].error},
+        });
+    });
+
+    it("should describe other errors with their status", () => {
+        expect(toGeminiError(new ModelNotFoundError("llama-3")).body.error).toMatchObject({code: 404, status: "NOT_FOUND"});
+        expect(toGeminiError(new UpstreamTimeoutError(1000)).body.error).toMatchObject({code: 504, status: "DEADLINE_EXCEEDED"});
+        expect(toGeminiError(new Error("boom")).body.error).toEqual({code: 500, message: "boom", status: "INTERNAL"});
+    });
+});
@@ -0,0 +1,226 @@
+/**
+ * Errors of the Code Assist API and their translation into OpenAI, Anthropic and Gemini API errors.
+ *
+ * Code Assist reports errors as google.rpc.Status bodies, whose details say why a request failed
+ * (ErrorInfo), which quota it exceeded (QuotaFailure) and when to retry (RetryInfo). Clients only
+ * understand the error format of their own API, and their SDKs decide whether and when to retry
+ * from the status code and the retry-after headers.
+ */
+
+import * as OpenAI from "../types/openai.js";
+import * as Anthropic from "../types/anthropic.js";
+import {ModelNotFoundError} from "./model-registry.js";
+import {UpstreamTimeoutError} from "./retry.js";
+
+/**
+ * Custom error class for Gemini API errors with status code information
+ */
+export class GeminiApiError extends Error {
+    constructor(
+        message: string,
+        public readonly statusCode: number,
+        public readonly responseText?: string,
+        // Delay upstream asked for before retrying, from Retry-After or RetryInfo
+        public readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = "GeminiApiError";
+    }
+}
+
+/**
+ * Error for a request that Gemini accepted but refused or failed to answer, like a prompt
+ * blocked by safety filters. The reason is the Gemini block or finish reason.
+ */
+export class GeminiResponseError extends GeminiApiError {
+    constructor(
+        message: string,
+        statusCode: number,
+        public readonly reason: string
+    ) {
+        super(message, statusCode);
+        this.name = "GeminiResponseError";
+    }
+}
+
+/**
+ * Error body of Google APIs, the details are typed by their @type URL
+ */
+export type GoogleRpcStatus = {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: Array<Record<string, unknown>>;
+};
+
+/**
+ * Parses the google.rpc.Status of a Code Assist error body
+ * @param {string} errorText - Error response body
+ * @returns {GoogleRpcStatus | undefined} Status, undefined when the body is not a Google error
+ */
+export const parseGoogleRpcStatus = (errorText?: string): GoogleRpcStatus | undefined => {
+    try {
+        // Code Assist sometimes wraps the error in an array
+        const body = JSON.parse(errorText ?? "") as unknown;
+        const error = (Array.isArray(body) ? body[0] : body)?.error as GoogleRpcStatus | undefined;
+        return error && typeof error === "object" ? error : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Detail of the given google.rpc type, e.g. RetryInfo
+ */
+const findDetail = (status: GoogleRpcStatus | undefined, type: string): Record<string, unknown> | undefined =>
+    status?.details?.find((detail) => String(detail["@type"]).endsWith(`google.rpc.${type}`));
+
+/**
+ * Parses how long upstream asks to wait before retrying, from the Retry-After header or the
+ * google.rpc.RetryInfo detail of the error body
+ * @param {string | null} retryAfterHeader - Retry-After header, in seconds or as HTTP date
+ * @param {string} errorText - Error response body
+ * @returns {number | undefined} Delay in milliseconds, undefined when upstream does not say
+ */
+export const parseRetryDelay = (retryAfterHeader: string | null, errorText?: string): number | undefined => {
+    if (retryAfterHeader) {
+        const seconds = Number(retryAfterHeader);
+        if (!Number.isNaN(seconds)) {
+            return seconds * 1000;
+        }
+        const date = Date.parse(retryAfterHeader);
+        if (!Number.isNaN(date)) {
+            return Math.max(date - Date.now(), 0);
+        }
+    }
+
+    const retryInfo = findDetail(parseGoogleRpcStatus(errorText), "RetryInfo");
+    // Durations are encoded as decimal seconds with an "s" suffix, e.g. "37.5s"
+    const delay = typeof retryInfo?.retryDelay === "string" ? parseFloat(retryInfo.retryDelay) : NaN;
+    return Number.isNaN(delay) ? undefined : delay * 1000;
+};
+
+/**
+ * API independent description of a failed request
+ */
+export type TranslatedError = {
+    statusCode: number;
+    message: string;
+    // Machine readable reason, e.g. the ErrorInfo reason or the Gemini block reason
+    reason?: string;
+    retryAfterMs?: number;
+};
+
+/**
+ * Describes a failed request: unknown models are not found, upstream errors and timeouts keep
+ * their status, Code Assist errors get the message and reason of their google.rpc.Status.
+ */
+export const translateError = (error: unknown): TranslatedError => {
+    const message = error instanceof Error ? error.message : "An unknown error occurred";
+    if (error instanceof ModelNotFoundError) {
+        return {statusCode: 404, message, reason: "MODEL_NOT_FOUND"};
+    }
+    if (error instanceof UpstreamTimeoutError) {
+        return {statusCode: error.statusCode, message, reason: "TIMEOUT"};
+    }
+    if (error instanceof GeminiResponseError) {
+        return {statusCode: error.statusCode, message, reason: error.reason};
+    }
+    if (!(error instanceof GeminiApiError)) {
+        return {statusCode: 500, message};
+    }
+
+    const status = parseGoogleRpcStatus(error.responseText);
+    const errorInfo = findDetail(status, "ErrorInfo");
+    const violations = (findDetail(status, "QuotaFailure")?.violations ?? []) as Array<{description?: string}>;
+    const quota = violations.map((violation) => violation.description).filter(Boolean).join(" ");
+    return {
+        statusCode: error.statusCode,
+        message: status?.message ? [status.message, quota].filter(Boolean).join(" ") : message,
+        reason: typeof errorInfo?.reason === "string" ? errorInfo.reason : status?.status,
+        retryAfterMs: error.retryAfterMs,
+    };
+};
+
+/**
+ * Headers telling client SDKs when to retry, both the standard one in seconds and the more precise
+ * retry-after-ms understood by the OpenAI and Anthropic SDKs
+ */
+const getRetryHeaders = ({retryAfterMs}: TranslatedError): Record<string, string> => retryAfterMs === undefined ? {} : {
+    "retry-after": String(Math.ceil(retryAfterMs / 1000)),
+    "retry-after-ms": String(Math.round(retryAfterMs)),
+};
+
+/**
+ * Error of a failed request in OpenAI format, with its HTTP status and headers
+ */
+export const toOpenAIError = (error: unknown): {statusCode: number; headers: Record<string, string>; body: OpenAI.ErrorResponse} => {
+    const translated = translateError(error);
+    const {statusCode, message, reason} = translated;
+    let type: OpenAI.ErrorResponse["error"]["type"] = statusCode < 500 ? "invalid_request_error" : "server_error";
+    let code = reason?.toLowerCase() ?? null;
+    // Like OpenAI rate limits, whatever Gemini's reason was
+    if (statusCode === 429) {
+        type = "requests";
+        code = "rate_limit_exceeded";
+    }
+    return {
+        statusCode,
+        headers: getRetryHeaders(translated),
+        body: {error: {message, type, param: error instanceof ModelNotFoundError ? "model" : null, code}},
+    };
+};
+
+const ANTHROPIC_ERROR_TYPES: Record<number, Anthropic.AnthropicError["error"]["type"]> = {
+    400: "invalid_request_error",
+    401: "authentication_error",
+    403: "permission_error",
+    404: "not_found_error",
+    429: "rate_limit_error",
+    503: "overloaded_error",
+    529: "overloaded_error",
+};
+
+/**
+ * Error of a failed request in Anthropic format, with its HTTP status and headers
+ */
+export const toAnthropicError = (error: unknown): {statusCode: number; headers: Record<string, string>; body: Anthropic.AnthropicError} => {
+    const translated = translateError(error);
+    const {statusCode, message} = translated;
+    return {
+        statusCode,
+        headers: getRetryHeaders(translated),
+        body: {
+            type: "error",
+            error: {
+                type: ANTHROPIC_ERROR_TYPES[statusCode] ?? (statusCode < 500 ? "invalid_request_error" : "api_error"),
+                message,
+            },
+        },
+    };
+};
+
+const GOOGLE_RPC_STATUSES: Record<number, string> = {
+    400: "INVALID_ARGUMENT",
+    401: "UNAUTHENTICATED",
+    403: "PERMISSION_DENIED",
+    404: "NOT_FOUND",
+    429: "RESOURCE_EXHAUSTED",
+    503: "UNAVAILABLE",
+    504: "DEADLINE_EXCEEDED",
+};
+
+/**
+ * Error of a failed request in Gemini API format, with its HTTP status and headers.
+ * Code Assist errors already are in that format and are passed on as they are.
+ */
+export const toGeminiError = (error: unknown): {statusCode: number; headers: Record<string, string>; body: {error: GoogleRpcStatus}} => {
+    const translated = translateError(error);
+    const {statusCode, message} = translated;
+    const status = error instanceof GeminiApiError ? parseGoogleRpcStatus(error.responseText) : undefined;
+    return {
+        statusCode,
+        headers: getRetryHeaders(translated),
+        body: {error: status ?? {code: statusCode, message, status: GOOGLE_RPC_STATUSES[statusCode] ?? "INTERNAL"}},
+    };
+};
@@ -1,28 +1,196 @@
 import {describe, it, expect} from "vitest";
-import {mapModelToGemini, mapJsonSchemaToGemini} from "./mapper.js";
+import {
+    mapModelToGemini,
+    mapJsonSchemaToGemini,
+    estimateTokenCount,
+    addNativeTools,
+    addFunctionCallArgumentStreaming,
+    mapFinishReasonToOpenAI,
+    mapGroundingMetadataToCitations,
+    mapGroundingToStreamDelta
+} from "./mapper.js";
 import type {JsonSchema} from "../types/types.js";
+import {ModelNotFoundError} from "./model-registry.js";
 import * as Gemini from "../types/gemini.js";
 
 describe("mapModelToGemini", () => {
-    it("should return Gemini3ProPreview for undefined model", () => {
-        const result = mapModelToGemini(undefined);
-        expect(result).toBe(Gemini.Model.Gemini3ProPreview);
+    it("should return the default model for undefined model", () => {
+        expect(mapModelToGemini(undefined)).toBe("gemini-3-pro-preview");
     });
 
-    it("should return valid Gemini model for existing model key", () => {
-        const result = mapModelToGemini(Gemini.Model.Gemini25Flash);
-        expect(result).toBe(Gemini.Model.Gemini25Flash);
+    it("should return a model of the registry by its id", () => {
+        expect(mapModelToGemini("gemini-2.5-flash")).toBe("gemini-2.5-flash");
     });
 
-    it("should return Gemini3ProPreview for unknown model", () => {
-        const result = mapModelToGemini("unknown-model" as Gemini.Model);
-        expect(result).toBe(Gemini.Model.Gemini3ProPreview);
+    it("should resolve client model names through aliases", () => {
+        expect(mapModelToGemini("claude-sonnet-4-20250514")).toBe("gemini-2.5-pro");
+        expect(mapModelToGemini("gpt-4o")).toBe("gemini-2.5-flash");
     });
 
-    it("should handle all valid Gemini models", () => {
-        Object.values(Gemini.Model).forEach(model => {
-            const result = mapModelToGemini(model);
-            expect(result).toBe(model);
+    it("should reject unknown models", () => {
+        expect(() => mapModelToGemini("unknown-model")).toThrow(ModelNotFoundError);
+    });
+});
+
+describe("estimateTokenCount", () => {
+    it("should estimate text tokens at four characters per token", () => {
+        const result = estimateTokenCount({
+            systemInstruction: {parts: [{text: "1234"}]},
+            contents: [{role: "user", parts: [{text: "12345678"}]}]
+        });
+        expect(result).toBe(3);
+    });
+
+    it("should count images as fixed tokens and include function parts and tools", () => {
+        const result = estimateTokenCount({
+            contents: [
+                {role: "user", parts: [{inlineData: {mimeType: "image/png", data: "abc"}}]},
+                {role: "model", parts: [{functionCall: {name: "fn", args: {}}}]},
+                {role: "user", parts: [{functionResponse: {name: "fn", response: {}}}]}
+            ],
+            tools: [{functionDeclarations: []}]
+        });
+        // "fn{}" + "fn{}" + '[{"functionDeclarations":[]}]' = 37 characters
+        expect(result).toBe(258 + Math.ceil(37 / 4));
+    });
+
+    it("should be deterministic", () => {
+        const request: Gemini.ChatCompletionRequestBody = {contents: [{role: "user", parts: [{text: "Hello world"}]}]};
+        expect(estimateTokenCount(request)).toBe(estimateTokenCount(request));
+    });
+});
+
+describe("mapFinishReasonToOpenAI", () => {
+    it("should map MAX_TOKENS to length", () => {
+        expect(mapFinishReasonToOpenAI("MAX_TOKENS", false)).toBe("length");
+    });
+
+    it("should map STOP and missing reasons to stop", () => {
+        expect(mapFinishReasonToOpenAI("STOP", false)).toBe("stop");
+        expect(mapFinishReasonToOpenAI(undefined, false)).toBe("stop");
+    });
+
+    it("should prefer tool_calls when the turn has tool calls", () => {
+        expect(mapFinishReasonToOpenAI("STOP", true)).toBe("tool_calls");
+    });
+
+    it("should map safety, recitation and prohibited content to content_filter", () => {
+        expect(mapFinishReasonToOpenAI("SAFETY", false)).toBe("content_filter");
+        expect(mapFinishReasonToOpenAI("RECITATION", false)).toBe("content_filter");
+        expect(mapFinishReasonToOpenAI("PROHIBITED_CONTENT", true)).toBe("content_filter");
+    });
+});
+
+describe("addNativeTools", () => {
+    const contents: Gemini.ChatMessage[] = [{role: "user", parts: [{text: "Latest news?"}]}];
+
+    it("should add Google Search and URL context when enabled", () => {
+        const result = addNativeTools({contents}, {googleSearch: true, urlContext: true});
+        expect(result.tools).toEqual([{googleSearch: {}}, {urlContext: {}}]);
+    });
+
+    it("should leave the request untouched when disabled", () => {
+        const request: Gemini.ChatCompletionRequestBody = {contents};
+        expect(addNativeTools(request, {googleSearch: false, urlContext: false})).toBe(request);
+    });
+
+    it("should not combine native tools with function declarations", () => {
+        const request: Gemini.ChatCompletionRequestBody = {
+            contents,
+            tools: [{functionDeclarations: [{name: "get_time", description: "Get the time", parameters: {}}]}]
+        };
+        expect(addNativeTools(request, {googleSearch: true, urlContext: true})).toBe(request);
+    });
+
+    it("should not combine native tools with structured output", () => {
+        const jsonRequest: Gemini.ChatCompletionRequestBody = {contents, generationConfig: {responseMimeType: "application/json"}};
+        const schemaRequest: Gemini.ChatCompletionRequestBody = {contents, generationConfig: {responseSchema: {type: "OBJECT"}}};
+        expect(addNativeTools(jsonRequest, {googleSearch: true, urlContext: true})).toBe(jsonRequest);
+        expect(addNativeTools(schemaRequest, {googleSearch: true, urlContext: true})).toBe(schemaRequest);
+    });
+});
+
+describe("addFunctionCallArgumentStreaming", () => {
+    const contents: Gemini.ChatMessage[] = [{role: "user", parts: [{text: "Write the file"}]}];
+    const tools: Gemini.Tool[] = [{functionDeclarations: [{name: "write_file", description: "Write a file", parameters: {}}]}];
+
+    it("should request streamed arguments for requests with function declarations", () => {
+        const result = addFunctionCallArgumentStreaming({contents, tools, toolConfig: {functionCallingConfig: {mode: "ANY", allowedFunctionNames: ["write_file"]}}}, true);
+        expect(result.toolConfig).toEqual({functionCallingConfig: {mode: "ANY", allowedFunctionNames: ["write_file"], streamFunctionCallArguments: true}});
+    });
+
+    it("should default to AUTO mode without a tool config", () => {
+        const result = addFunctionCallArgumentStreaming({contents, tools}, true);
+        expect(result.toolConfig).toEqual({functionCallingConfig: {mode: "AUTO", streamFunctionCallArguments: true}});
+    });
+
+    it("should leave the request untouched when disabled, without functions or with function calling off", () => {
+        const disabled: Gemini.ChatCompletionRequestBody = {contents, tools};
+        const withoutFunctions: Gemini.ChatCompletionRequestBody = {contents};
+        const callingOff: Gemini.ChatCompletionRequestBody = {contents, tools, toolConfig: {functionCallingConfig: {mode: "NONE"}}};
+
+        expect(addFunctionCallArgumentStreaming(disabled, false)).toBe(disabled);
+        expect(addFunctionCallArgumentStreaming(withoutFunctions, true)).toBe(withoutFunctions);
+        expect(addFunctionCallArgumentStreaming(callingOff, true)).toBe(callingOff);
+    });
+});
+
+describe("mapGroundingMetadataToCitations", () => {
+    it("should resolve each support to the chunks it cites", () => {
+        const result = mapGroundingMetadataToCitations({
+            groundingChunks: [
+                {web: {uri: "https://a.example", title: "a.example"}},
+                {web: {uri: "https://b.example", title: "b.example"}}
+            ],
+            groundingSupports: [
+                {segment: {startIndex: 0, endIndex: 5, text: "Hello"}, groundingChunkIndices: [0, 1]},
+                {segment: {startIndex: 6, endIndex: 11, text: "world"}, groundingChunkIndices: [1, 7]}
+            ]
+        });
+
+        expect(result).toEqual([
+            {url: "https://a.example", title: "a.example", text: "Hello", startIndex: 0, endIndex: 5},
+            {url: "https://b.example", title: "b.example", text: "Hello", startIndex: 0, endIndex: 5},
+            {url: "https://b.example", title: "b.example", text: "world", startIndex: 6, endIndex: 11}
+        ]);
+    });
+
+    it("should fall back to the sources when there are no supports", () => {
+        const result = mapGroundingMetadataToCitations({groundingChunks: [{web: {uri: "https://a.example"}}]});
+        expect(result).toEqual([{url: "https://a.example", title: "https://a.example", text: "", startIndex: 0, endIndex: 0}]);
+    });
+});
+
+describe("mapGroundingToStreamDelta", () => {
+    it("should return undefined without grounding metadata", () => {
+        expect(mapGroundingToStreamDelta({content: {parts: [{text: "Hi"}]}})).toBeUndefined();
+    });
+
+    it("should map search grounding to native tool calls and url citations", () => {
+        const groundingMetadata: Gemini.GroundingMetadata = {
+            webSearchQueries: ["weather paris"],
+            groundingChunks: [{web: {uri: "https://a.example", title: "a.example"}}],
+            groundingSupports: [{segment: {startIndex: 0, endIndex: 5, text: "Sunny"}, groundingChunkIndices: [0]}]
+        };
+        const urlContextMetadata: Gemini.UrlContextMetadata = {
+            urlMetadata: [{retrievedUrl: "https://a.example", urlRetrievalStatus: "URL_RETRIEVAL_STATUS_SUCCESS"}]
+        };
+
+        const result = mapGroundingToStreamDelta({groundingMetadata, urlContextMetadata});
+
+        expect(result).toEqual({
+            native_tool_calls: [
+                {
+                    type: "search",
+                    data: {queries: ["weather paris"], sources: [{url: "https://a.example", title: "a.example"}]},
+                    metadata: groundingMetadata
+                },
+                {type: "url_context", data: urlContextMetadata.urlMetadata, metadata: urlContextMetadata}
+            ],
+            grounding: groundingMetadata,
+            annotations: [
+                {type: "url_citation", url_citation: {url: "https://a.example", title: "a.example", start_index: 0, end_index: 5}}
+            ]
         });
     });
 });
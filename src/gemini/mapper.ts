@@ -1,20 +1,209 @@
 import * as Gemini from "../types/gemini.js";
+import * as OpenAI from "../types/openai.js";
 import type {JsonSchema} from "../types/types.js";
+import {modelRegistry} from "./model-registry.js";
 
-export const mapModelToGemini = (model?: string): Gemini.Model => {
-    if (model === undefined) {
-        return Gemini.Model.Gemini3ProPreview;
+/**
+ * Resolves a requested model name or alias to the id of a Gemini model of the registry.
+ * Throws a ModelNotFoundError for unknown models unless a catch-all model is configured.
+ */
+export const mapModelToGemini = (model?: string): string => modelRegistry.resolve(model).id;
+
+// Rough characters per token ratio for English text and code
+const CHARS_PER_TOKEN = 4;
+// Gemini bills every inline image as a fixed number of tokens
+const TOKENS_PER_IMAGE = 258;
+
+/**
+ * Deterministic local token estimate, used when Code Assist can't count tokens for us
+ */
+export const estimateTokenCount = (request: Gemini.ChatCompletionRequestBody): number => {
+    let characters = 0;
+    let images = 0;
+
+    const parts = [
+        ...(request.systemInstruction?.parts ?? []),
+        ...request.contents.flatMap((message) => message.parts),
+    ];
+    for (const part of parts) {
+        if ("text" in part) {
+            characters += part.text.length;
+        } else if ("inlineData" in part) {
+            images++;
+        } else if ("functionCall" in part) {
+            characters += part.functionCall.name.length + JSON.stringify(part.functionCall.args ?? {}).length;
+        } else if ("functionResponse" in part) {
+            characters += part.functionResponse.name.length + JSON.stringify(part.functionResponse.response).length;
+        }
+    }
+
+    if (request.tools) {
+        characters += JSON.stringify(request.tools).length;
+    }
+
+    return Math.ceil(characters / CHARS_PER_TOKEN) + images * TOKENS_PER_IMAGE;
+};
+
+export type GroundingCitation = {
+    url: string;
+    title: string;
+    // Grounded text segment, empty when Gemini only returned sources
+    text: string;
+    startIndex: number;
+    endIndex: number;
+};
+
+/**
+ * Resolves Google Search grounding supports to the web sources they cite
+ */
+export const mapGroundingMetadataToCitations = (metadata: Gemini.GroundingMetadata): GroundingCitation[] => {
+    const chunks = metadata.groundingChunks ?? [];
+    const supports = metadata.groundingSupports ?? [];
+
+    if (supports.length === 0) {
+        return chunks
+            .filter((chunk) => chunk.web)
+            .map((chunk) => ({url: chunk.web!.uri, title: chunk.web!.title ?? chunk.web!.uri, text: "", startIndex: 0, endIndex: 0}));
+    }
+
+    return supports.flatMap((support) => (support.groundingChunkIndices ?? [])
+        .map((index) => chunks[index]?.web)
+        .filter((web) => web !== undefined)
+        .map((web) => ({
+            url: web.uri,
+            title: web.title ?? web.uri,
+            text: support.segment?.text ?? "",
+            startIndex: support.segment?.startIndex ?? 0,
+            endIndex: support.segment?.endIndex ?? 0,
+        })));
+};
+
+// Finish reasons of responses that Gemini stopped because of its content filters
+const CONTENT_FILTER_FINISH_REASONS = new Set<Gemini.FinishReason>([
+    "SAFETY",
+    "RECITATION",
+    "BLOCKLIST",
+    "PROHIBITED_CONTENT",
+    "SPII",
+    "IMAGE_SAFETY",
+]);
+
+/**
+ * Maps a Gemini finish reason to an OpenAI finish reason.
+ * Gemini reports a matched stop sequence as a regular STOP, so it maps to "stop" as well.
+ */
+export const mapFinishReasonToOpenAI = (
+    finishReason: Gemini.FinishReason | undefined,
+    hasToolCalls: boolean,
+): OpenAI.FinishReason => {
+    if (finishReason && CONTENT_FILTER_FINISH_REASONS.has(finishReason)) {
+        return "content_filter";
     }
+    if (hasToolCalls) {
+        return "tool_calls";
+    }
+    return finishReason === "MAX_TOKENS" ? "length" : "stop";
+};
+
+/**
+ * Whether a request asks for structured output like JSON instead of free text
+ */
+export const hasStructuredOutput = (request: Gemini.ChatCompletionRequestBody): boolean =>
+    !!(request.generationConfig?.responseMimeType || request.generationConfig?.responseSchema);
+
+export type NativeToolsOptions = {
+    googleSearch: boolean;
+    urlContext: boolean;
+};
 
-    // Check if the model string is one of the valid enum values
-    const validModels = Object.values(Gemini.Model) as string[];
-    if (validModels.includes(model)) {
-        return model as Gemini.Model;
+/**
+ * Adds Gemini's native tools (Google Search, URL context) to a request.
+ * Code Assist rejects native tools combined with function declarations or with a JSON response
+ * mime type, so requests with client tools or structured output are left untouched.
+ */
+export const addNativeTools = (
+    request: Gemini.ChatCompletionRequestBody,
+    options: NativeToolsOptions,
+): Gemini.ChatCompletionRequestBody => {
+    if (hasStructuredOutput(request)) {
+        return request;
+    }
+    const tools = request.tools ?? [];
+    if (tools.some((tool) => tool.functionDeclarations?.length || tool.googleSearch || tool.urlContext)) {
+        return request;
+    }
+
+    const nativeTools: Gemini.Tool[] = [];
+    if (options.googleSearch) {
+        nativeTools.push({googleSearch: {}});
+    }
+    if (options.urlContext) {
+        nativeTools.push({urlContext: {}});
     }
 
-    return Gemini.Model.Gemini3ProPreview;
+    return nativeTools.length > 0 ? {...request, tools: [...tools, ...nativeTools]} : request;
 };
 
+/**
+ * Asks Gemini to stream the arguments of function calls as partial arguments.
+ * Only requests that declare functions and do not disable function calling are changed.
+ */
+export const addFunctionCallArgumentStreaming = (
+    request: Gemini.ChatCompletionRequestBody,
+    enabled: boolean,
+): Gemini.ChatCompletionRequestBody => {
+    const functionCallingConfig = request.toolConfig?.functionCallingConfig ?? {mode: "AUTO"};
+    if (!enabled || functionCallingConfig.mode === "NONE" || !request.tools?.some((tool) => tool.functionDeclarations?.length)) {
+        return request;
+    }
+    return {
+        ...request,
+        toolConfig: {...request.toolConfig, functionCallingConfig: {...functionCallingConfig, streamFunctionCallArguments: true}},
+    };
+};
+
+/**
+ * Maps candidate grounding metadata to a stream delta carrying native tool calls and url citations
+ */
+export const mapGroundingToStreamDelta = (candidate: Gemini.Candidate): OpenAI.StreamDelta | undefined => {
+    const {groundingMetadata, urlContextMetadata} = candidate;
+    if (!groundingMetadata && !urlContextMetadata) {
+        return undefined;
+    }
+
+    const delta: OpenAI.StreamDelta = {native_tool_calls: []};
+    if (groundingMetadata) {
+        delta.native_tool_calls!.push({
+            type: "search",
+            data: {
+                queries: groundingMetadata.webSearchQueries ?? [],
+                sources: (groundingMetadata.groundingChunks ?? [])
+                    .filter((chunk) => chunk.web)
+                    .map((chunk) => ({url: chunk.web!.uri, title: chunk.web!.title})),
+            },
+            metadata: groundingMetadata,
+        });
+        delta.grounding = groundingMetadata;
+        delta.annotations = mapGroundingMetadataToCitations(groundingMetadata).map((citation) => ({
+            type: "url_citation",
+            url_citation: {
+                url: citation.url,
+                title: citation.title,
+                start_index: citation.startIndex,
+                end_index: citation.endIndex,
+            },
+        }));
+    }
+    if (urlContextMetadata) {
+        delta.native_tool_calls!.push({
+            type: "url_context",
+            data: urlContextMetadata.urlMetadata ?? [],
+            metadata: urlContextMetadata,
+        });
+    }
+
+    return delta;
+};
 
 export const mapJsonSchemaToGemini = (schema: JsonSchema | unknown): JsonSchema => {
     if (!schema || typeof schema !== "object") {
@@ -0,0 +1,81 @@
+import {describe, it, expect, afterEach} from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {DEFAULT_MODEL_CATALOG, ModelNotFoundError, ModelRegistry} from "./model-registry.js";
+
+const model = (id: string, aliases?: string[]) => ({id, aliases, thinking: true, contextWindow: 1000, maxOutputTokens: 100});
+
+describe("ModelRegistry", () => {
+    const tempDirs: string[] = [];
+
+    const writeConfig = (config: object): string => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "model-registry-"));
+        tempDirs.push(dir);
+        const filePath = path.join(dir, "models.json");
+        fs.writeFileSync(filePath, JSON.stringify(config));
+        return filePath;
+    };
+
+    afterEach(() => {
+        for (const dir of tempDirs.splice(0)) {
+            fs.rmSync(dir, {recursive: true, force: true});
+        }
+    });
+
+    it("should resolve ids, wildcard aliases and the models/ prefix", () => {
+        const registry = new ModelRegistry(DEFAULT_MODEL_CATALOG);
+
+        expect(registry.resolve("gemini-2.5-flash-lite").id).toBe("gemini-2.5-flash-lite");
+        expect(registry.resolve("models/gemini-2.5-pro").id).toBe("gemini-2.5-pro");
+        expect(registry.resolve("claude-opus-4-1-20250805").id).toBe("gemini-3-pro-preview");
+        expect(registry.resolve("claude-3-5-haiku-20241022").id).toBe("gemini-2.5-flash");
+        expect(registry.resolve("GPT-4o-mini").id).toBe("gemini-2.5-flash-lite");
+    });
+
+    it("should prefer exact ids over aliases", () => {
+        const registry = new ModelRegistry({models: [model("a", ["b*"]), model("bravo")], defaultModel: "a"});
+        expect(registry.resolve("bravo").id).toBe("bravo");
+        expect(registry.resolve("beta").id).toBe("a");
+    });
+
+    it("should reject unknown models with a ModelNotFoundError", () => {
+        const registry = new ModelRegistry(DEFAULT_MODEL_CATALOG);
+        expect(() => registry.resolve("llama-3")).toThrow(new ModelNotFoundError("llama-3"));
+    });
+
+    it("should resolve unknown models to the catch-all model", () => {
+        const registry = new ModelRegistry({...DEFAULT_MODEL_CATALOG, catchAll: "gemini-2.5-flash"});
+        expect(registry.resolve("llama-3").id).toBe("gemini-2.5-flash");
+    });
+
+    it("should reject catalogs that reference unknown models", () => {
+        expect(() => new ModelRegistry({models: [model("a")], defaultModel: "b"})).toThrow("unknown model b");
+        expect(() => new ModelRegistry({models: [model("a")], defaultModel: "a", catchAll: "c"})).toThrow("unknown model c");
+    });
+
+    it("should load a catalog from a JSON file", () => {
+        const registry = new ModelRegistry(DEFAULT_MODEL_CATALOG);
+        registry.load(writeConfig({models: [model("gemini-2.5-flash", ["*"])]}));
+
+        expect(registry.list().map((entry) => entry.id)).toEqual(["gemini-2.5-flash"]);
+        expect(registry.resolve(undefined).id).toBe("gemini-2.5-flash");
+        expect(registry.resolve("anything").id).toBe("gemini-2.5-flash");
+    });
+
+    it("should keep the built-in models when the file only sets a catch-all", () => {
+        const registry = new ModelRegistry(DEFAULT_MODEL_CATALOG);
+        registry.load(writeConfig({catchAll: "gemini-2.5-pro"}));
+
+        expect(registry.list()).toBe(DEFAULT_MODEL_CATALOG.models);
+        expect(registry.resolve("llama-3").id).toBe("gemini-2.5-pro");
+    });
+
+    it("should only stream function call arguments of the models supporting it", () => {
+        const registry = new ModelRegistry(DEFAULT_MODEL_CATALOG);
+
+        expect(registry.supportsStreamFunctionCallArguments("gemini-3-pro-preview")).toBe(true);
+        expect(registry.supportsStreamFunctionCallArguments("gemini-2.5-pro")).toBe(false);
+        expect(registry.supportsStreamFunctionCallArguments("llama-3")).toBe(false);
+    });
+});
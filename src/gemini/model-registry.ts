@@ -0,0 +1,175 @@
+/**
+ * Catalog of the Gemini models the proxy serves.
+ *
+ * Clients like Claude Code or Copilot request their own model names, so every model has aliases
+ * (with * wildcards) that resolve to it. Unknown models are rejected unless a catch-all model
+ * is configured. The built-in catalog can be replaced with a JSON file via --model-config.
+ */
+
+import fs from "fs";
+
+export type ModelDefinition = {
+    id: string;
+    aliases?: string[];
+    // Thinking models always get a thinking config, required to receive thought signatures
+    thinking: boolean;
+    contextWindow: number;
+    maxOutputTokens: number;
+    defaultThinkingBudget?: number;
+    // Accepts streamed function call arguments, --stream-function-call-arguments only applies to these models
+    streamFunctionCallArguments?: boolean;
+    // Models tried in order when this one is rate limited
+    fallbacks?: string[];
+};
+
+export type ModelCatalog = {
+    models: ModelDefinition[];
+    // Model used for requests without a model
+    defaultModel: string;
+    // Model used for unknown models, which are rejected without one
+    catchAll?: string;
+};
+
+/**
+ * Error for a requested model that is neither in the catalog nor an alias of one
+ */
+export class ModelNotFoundError extends Error {
+    constructor(public readonly model: string) {
+        super(`The model \`${model}\` does not exist`);
+        this.name = "ModelNotFoundError";
+    }
+}
+
+export const DEFAULT_MODEL_CATALOG: ModelCatalog = {
+    models: [
+        {
+            id: "gemini-3-pro-preview",
+            aliases: ["claude-opus-*", "claude-3-opus-*", "gpt-5*"],
+            thinking: true,
+            contextWindow: 1048576,
+            maxOutputTokens: 65536,
+            defaultThinkingBudget: 8192,
+            streamFunctionCallArguments: true,
+            fallbacks: ["gemini-2.5-pro", "gemini-2.5-flash", "gemini-2.5-flash-lite"],
+        },
+        {
+            id: "gemini-2.5-pro",
+            aliases: ["claude-sonnet-*", "claude-3-sonnet-*", "claude-3-*-sonnet-*", "gpt-4.1", "o3*", "o4-mini*"],
+            thinking: true,
+            contextWindow: 1048576,
+            maxOutputTokens: 65536,
+            defaultThinkingBudget: 8192,
+            fallbacks: ["gemini-2.5-flash", "gemini-2.5-flash-lite"],
+        },
+        {
+            id: "gemini-2.5-flash",
+            aliases: ["claude-haiku-*", "claude-3-haiku-*", "claude-3-*-haiku-*", "gpt-4o", "gpt-4.1-mini"],
+            thinking: true,
+            contextWindow: 1048576,
+            maxOutputTokens: 65536,
+            defaultThinkingBudget: 8192,
+            fallbacks: ["gemini-2.5-flash-lite"],
+        },
+        {
+            id: "gemini-2.5-flash-lite",
+            aliases: ["gpt-4o-mini", "gpt-4.1-nano"],
+            thinking: false,
+            contextWindow: 1048576,
+            maxOutputTokens: 65536,
+        },
+    ],
+    defaultModel: "gemini-3-pro-preview",
+};
+
+const matchesAlias = (model: string, alias: string): boolean => {
+    const pattern = alias.toLowerCase().split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+    return new RegExp(`^${pattern}$`).test(model.toLowerCase());
+};
+
+export class ModelRegistry {
+    private catalog: ModelCatalog;
+
+    constructor(catalog: ModelCatalog) {
+        this.catalog = ModelRegistry.validate(catalog);
+    }
+
+    /**
+     * Replace the catalog with the one in a JSON file, missing fields keep their built-in values
+     */
+    load(filePath: string): void {
+        const config = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Partial<ModelCatalog>;
+        const models = config.models ?? DEFAULT_MODEL_CATALOG.models;
+        this.catalog = ModelRegistry.validate({
+            models,
+            // A custom model list defaults to its first model
+            defaultModel: config.defaultModel ?? (config.models ? models[0]?.id : DEFAULT_MODEL_CATALOG.defaultModel),
+            catchAll: config.catchAll,
+        });
+    }
+
+    /**
+     * Every model of the catalog
+     */
+    list(): ModelDefinition[] {
+        return this.catalog.models;
+    }
+
+    /**
+     * Resolve a requested model name or alias to its catalog entry, exact ids win over aliases
+     */
+    resolve(model?: string): ModelDefinition {
+        if (model === undefined) {
+            return this.get(this.catalog.defaultModel);
+        }
+
+        const name = model.replace(/^models\//, "");
+        const definition = this.catalog.models.find((entry) => entry.id === name)
+            ?? this.catalog.models.find((entry) => entry.aliases?.some((alias) => matchesAlias(name, alias)));
+        if (definition) {
+            return definition;
+        }
+        if (this.catalog.catchAll) {
+            return this.get(this.catalog.catchAll);
+        }
+        throw new ModelNotFoundError(model);
+    }
+
+    /**
+     * Fallback models of a model of the catalog, empty for unknown models
+     */
+    getFallbacks(id: string): string[] {
+        return this.catalog.models.find((entry) => entry.id === id)?.fallbacks ?? [];
+    }
+
+    /**
+     * Whether a model of the catalog accepts streamed function call arguments, false for unknown models
+     */
+    supportsStreamFunctionCallArguments(id: string): boolean {
+        return this.catalog.models.find((entry) => entry.id === id)?.streamFunctionCallArguments ?? false;
+    }
+
+    private get(id: string): ModelDefinition {
+        const definition = this.catalog.models.find((entry) => entry.id === id);
+        if (!definition) {
+            throw new ModelNotFoundError(id);
+        }
+        return definition;
+    }
+
+    private static validate(catalog: ModelCatalog): ModelCatalog {
+        if (catalog.models.length === 0) {
+            throw new Error("Model catalog has no models");
+        }
+        const ids = new Set(catalog.models.map((model) => model.id));
+        const fallbacks = catalog.models.flatMap((model) => model.fallbacks ?? []);
+        for (const reference of [catalog.defaultModel, catalog.catchAll, ...fallbacks]) {
+            if (reference !== undefined && !ids.has(reference)) {
+                throw new Error(`Model catalog references unknown model ${reference}`);
+            }
+        }
+        return catalog;
+    }
+}
+
+// Singleton instance
+export const modelRegistry = new ModelRegistry(DEFAULT_MODEL_CATALOG);
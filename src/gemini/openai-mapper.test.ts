@@ -1,7 +1,6 @@
 import {describe, it, expect, beforeEach} from "vitest";
 import {mapOpenAIChatCompletionRequestToGemini} from "./openai-mapper.js";
 import * as OpenAI from "../types/openai.js";
-import * as Gemini from "../types/gemini.js";
 import {signatureCache} from "./signature-cache.js";
 
 // Clear cache before each test to avoid cross-test pollution
@@ -21,10 +20,9 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
-        expect(result.model).toBe(Gemini.Model.Gemini25Pro);
-        expect(result.project).toBe("test-project");
+        expect(result.model).toBe("gemini-2.5-pro");
         expect(result.request.contents).toHaveLength(1);
         expect(result.request.contents[0].role).toBe("user");
         expect(result.request.contents[0].parts).toEqual([{text: "Hello world"}]);
@@ -42,11 +40,124 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.generationConfig?.temperature).toBe(0.7);
     });
 
+    it("should map sampling parameters, output limit and stop sequences", () => {
+        const request: OpenAI.ChatCompletionRequest = {
+            model: "gemini-2.5-flash-lite",
+            temperature: 0.2,
+            top_p: 0.9,
+            max_completion_tokens: 256,
+            max_tokens: 128,
+            stop: "END",
+            seed: 42,
+            presence_penalty: 0.5,
+            frequency_penalty: 0,
+            messages: [{role: "user", content: "Test message"}]
+        };
+
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
+
+        expect(result.request.generationConfig).toEqual({
+            temperature: 0.2,
+            topP: 0.9,
+            maxOutputTokens: 256,
+            stopSequences: ["END"],
+            seed: 42,
+            presencePenalty: 0.5
+        });
+    });
+
+    it("should fall back to max_tokens and keep stop sequence arrays", () => {
+        const request: OpenAI.ChatCompletionRequest = {
+            model: "gemini-2.5-flash-lite",
+            max_tokens: 128,
+            stop: ["END", "STOP"],
+            messages: [{role: "user", content: "Test message"}]
+        };
+
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
+
+        expect(result.request.generationConfig?.maxOutputTokens).toBe(128);
+        expect(result.request.generationConfig?.stopSequences).toEqual(["END", "STOP"]);
+    });
+
+    it("should map n to candidateCount", () => {
+        const request: OpenAI.ChatCompletionRequest = {
+            model: "gemini-2.5-flash-lite",
+            n: 3,
+            messages: [{role: "user", content: "Test message"}]
+        };
+
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
+
+        expect(result.request.generationConfig?.candidateCount).toBe(3);
+    });
+
+    it("should not set candidateCount for a single choice", () => {
+        const request: OpenAI.ChatCompletionRequest = {
+            model: "gemini-2.5-flash-lite",
+            n: 1,
+            messages: [{role: "user", content: "Test message"}]
+        };
+
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
+
+        expect(result.request.generationConfig?.candidateCount).toBeUndefined();
+    });
+
+    it("should map response_format json_object to a JSON mime type", () => {
+        const request: OpenAI.ChatCompletionRequest = {
+            model: "gemini-2.5-flash-lite",
+            response_format: {type: "json_object"},
+            messages: [{role: "user", content: "Test message"}]
+        };
+
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
+
+        expect(result.request.generationConfig?.responseMimeType).toBe("application/json");
+        expect(result.request.generationConfig?.responseSchema).toBeUndefined();
+    });
+
+    it("should map response_format json_schema to a Gemini response schema", () => {
+        const request: OpenAI.ChatCompletionRequest = {
+            model: "gemini-2.5-flash-lite",
+            response_format: {
+                type: "json_schema",
+                json_schema: {
+                    name: "person",
+                    strict: true,
+                    schema: {
+                        type: "object",
+                        properties: {
+                            name: {type: "string"},
+                            age: {type: ["integer", "null"]}
+                        },
+                        required: ["name", "age"],
+                        additionalProperties: false
+                    }
+                }
+            },
+            messages: [{role: "user", content: "Test message"}]
+        };
+
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
+
+        expect(result.request.generationConfig?.responseMimeType).toBe("application/json");
+        expect(result.request.generationConfig?.responseSchema).toEqual({
+            type: "object",
+            properties: {
+                name: {type: "string"},
+                age: {type: "integer", nullable: true}
+            },
+            required: ["name", "age"],
+            additionalProperties: false
+        });
+    });
+
     it("should map request with system message", () => {
         const request: OpenAI.ChatCompletionRequest = {
             model: "gemini-2.5-pro",
@@ -62,7 +173,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.systemInstruction).toEqual({
             parts: [{text: "You are a helpful assistant"}]
@@ -86,7 +197,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.systemInstruction).toEqual({
             parts: [{text: "You are a code assistant"}]
@@ -111,7 +222,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.systemInstruction).toEqual({
             parts: [{text: "You are a helpful assistant"}]
@@ -145,7 +256,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.tools).toBeDefined();
         expect(result.request.tools?.[0]?.functionDeclarations).toHaveLength(1);
@@ -184,7 +295,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.toolConfig).toEqual({
             functionCallingConfig: {
@@ -216,7 +327,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.toolConfig).toEqual({
             functionCallingConfig: {
@@ -251,7 +362,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.toolConfig).toEqual({
             functionCallingConfig: {
@@ -273,7 +384,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.generationConfig?.thinkingConfig).toEqual({
             thinkingBudget: 8192,
@@ -295,7 +406,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.generationConfig?.thinkingConfig).toEqual({
             thinkingBudget: 24576,
@@ -325,7 +436,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toHaveLength(2);
         expect(result.request.contents[0].parts[0]).toEqual({text: "Hello\n"});
@@ -353,7 +464,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toEqual([{text: "Hello world\n"}]);
     });
@@ -374,7 +485,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toEqual([{text: "Hello world\n"}]);
     });
@@ -395,7 +506,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toEqual([{text: "\n"}]);
     });
@@ -424,7 +535,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toEqual([
             {text: "First text\n"},
@@ -444,7 +555,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].role).toBe("model");
         expect(result.request.contents[0].parts).toEqual([{text: "Hello from assistant"}]);
@@ -472,7 +583,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].role).toBe("model");
         expect(result.request.contents[0].parts).toHaveLength(2);
@@ -512,7 +623,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents).toHaveLength(2);
         
@@ -534,7 +645,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             messages: []
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents).toHaveLength(0);
         expect(result.request.systemInstruction).toBeUndefined();
@@ -551,7 +662,7 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toEqual([{text: "123"}]);
     });
@@ -584,7 +695,7 @@ describe("OpenAI tool conversion functions", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
         
         const functionDeclaration = result.request.tools?.[0]?.functionDeclarations?.[0];
         expect(functionDeclaration).toEqual({
@@ -620,7 +731,7 @@ describe("OpenAI tool conversion functions", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
         
         const functionDeclaration = result.request.tools?.[0]?.functionDeclarations?.[0];
         expect(functionDeclaration).toEqual({
@@ -644,7 +755,7 @@ describe("OpenAI message mapping functions", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].role).toBe("user");
         expect(result.request.contents[0].parts[0]).toEqual({
@@ -684,7 +795,7 @@ describe("OpenAI message mapping functions", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[1].parts[0]).toEqual({
             functionResponse: {
@@ -718,7 +829,7 @@ describe("OpenAI message mapping functions", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].role).toBe("model");
         expect(result.request.contents[0].parts).toHaveLength(1);
@@ -752,7 +863,7 @@ describe("OpenAI message mapping functions", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         // Should only include the text part, invalid image should be skipped
         expect(result.request.contents[0].parts).toHaveLength(1);
@@ -775,7 +886,7 @@ describe("OpenAI message mapping functions", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toEqual([{text: "\n"}]);
     });
@@ -811,7 +922,7 @@ describe("OpenAI message mapping functions", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].role).toBe("model");
         expect(result.request.contents[0].parts).toHaveLength(3);
@@ -856,7 +967,7 @@ describe("OpenAI message mapping functions", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toHaveLength(3);
         expect(result.request.contents[0].parts[0]).toEqual({text: "First text\n"});
@@ -883,7 +994,7 @@ describe("reasoning/thinking config mapping", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.generationConfig?.thinkingConfig).toEqual({
             thinkingBudget: 1024,
@@ -903,7 +1014,7 @@ describe("reasoning/thinking config mapping", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.generationConfig?.thinkingConfig).toEqual({
             thinkingBudget: 8192,
@@ -923,7 +1034,7 @@ describe("reasoning/thinking config mapping", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.generationConfig?.thinkingConfig).toEqual({
             thinkingBudget: 24576,
@@ -946,7 +1057,7 @@ describe("reasoning/thinking config mapping", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.generationConfig?.thinkingConfig).toEqual({
             thinkingBudget: 24576,
@@ -966,7 +1077,7 @@ describe("reasoning/thinking config mapping", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.generationConfig?.thinkingConfig).toBeUndefined();
     });
@@ -983,7 +1094,7 @@ describe("reasoning/thinking config mapping", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.generationConfig?.thinkingConfig).toEqual({
             thinkingBudget: 8192,
@@ -1004,7 +1115,7 @@ describe("reasoning/thinking config mapping", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.generationConfig?.thinkingConfig).toBeUndefined();
     });
@@ -1046,7 +1157,7 @@ describe("OpenAI to Gemini mapping integration tests", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents).toHaveLength(2);
         
@@ -1093,7 +1204,7 @@ describe("OpenAI to Gemini mapping integration tests", () => {
             ]
         };
 
-        const result = mapOpenAIChatCompletionRequestToGemini("test-project", request);
+        const result = mapOpenAIChatCompletionRequestToGemini(request);
 
         expect(result.request.contents[0].parts).toHaveLength(2);
 
@@ -1,25 +1,18 @@
 import * as OpenAI from "../types/openai.js";
 import * as Gemini from "../types/gemini.js";
 import {DEFAULT_TEMPERATURE} from "../utils/constant.js";
-import {mapModelToGemini, mapJsonSchemaToGemini} from "./mapper.js";
+import {mapJsonSchemaToGemini} from "./mapper.js";
+import {modelRegistry} from "./model-registry.js";
 import {signatureCache} from "./signature-cache.js";
 import {getLogger} from "../utils/logger.js";
 import chalk from "chalk";
 
 const logger = getLogger("OPENAI-MAPPER", chalk.yellow);
 
-// Models that have thinking/reasoning enabled by default and require thought_signature
-const THINKING_MODELS = new Set([
-    Gemini.Model.Gemini3ProPreview,
-    Gemini.Model.Gemini25Pro,
-    Gemini.Model.Gemini25Flash,
-]);
-
 export const mapOpenAIChatCompletionRequestToGemini = (
-    project: string,
     request: OpenAI.ChatCompletionRequest,
 ): Gemini.ChatCompletionRequest => {
-    const model = mapModelToGemini(request.model);
+    const model = modelRegistry.resolve(request.model);
     const reasoningEffort = request.reasoning_effort ?? request.reasoning?.effort;
     const messages = request.messages ?? [];
     const messagesWithoutSystem = messages.filter((message) => !isSystemMessage(message));
@@ -27,6 +20,13 @@ export const mapOpenAIChatCompletionRequestToGemini = (
         contents: mapOpenAIMessagesToGeminiFormat(messagesWithoutSystem),
         generationConfig: {
             temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+            topP: request.top_p,
+            maxOutputTokens: request.max_completion_tokens ?? request.max_tokens,
+            stopSequences: typeof request.stop === "string" ? [request.stop] : request.stop,
+            seed: request.seed,
+            // Clients send 0 as "no penalty", only forward real penalties since not every model accepts them
+            presencePenalty: request.presence_penalty || undefined,
+            frequencyPenalty: request.frequency_penalty || undefined,
         }
     };
 
@@ -39,15 +39,27 @@ export const mapOpenAIChatCompletionRequestToGemini = (
     if (request.tool_choice) {
         geminiRequest.toolConfig = mapToolChoiceToToolConfig(request.tool_choice);
     }
+    if (request.n && request.n > 1) {
+        geminiRequest.generationConfig = {
+            ...geminiRequest.generationConfig,
+            candidateCount: request.n,
+        };
+    }
+    if (request.response_format) {
+        geminiRequest.generationConfig = {
+            ...geminiRequest.generationConfig,
+            ...mapResponseFormatToGenerationConfig(request.response_format),
+        };
+    }
 
     // Always enable includeThoughts for models that support thinking
     // This ensures we receive thought_signature which is required for tool calls
-    if (THINKING_MODELS.has(model)) {
+    if (model.thinking) {
         geminiRequest.generationConfig = {
             ...geminiRequest.generationConfig,
             thinkingConfig: getThinkingConfig(reasoningEffort) ?? {
                 // Default thinking config for models that require it
-                thinkingBudget: 8192,
+                thinkingBudget: model.defaultThinkingBudget ?? 8192,
                 includeThoughts: true,
             },
         };
@@ -60,12 +72,27 @@ export const mapOpenAIChatCompletionRequestToGemini = (
     }
 
     return {
-        model,
-        project,
+        model: model.id,
         request: geminiRequest,
     };
 };
 
+const mapResponseFormatToGenerationConfig = (responseFormat: OpenAI.ResponseFormat): Gemini.GenerationConfig => {
+    switch (responseFormat.type) {
+        case "json_object":
+            return {responseMimeType: "application/json"};
+        case "json_schema":
+            return {
+                responseMimeType: "application/json",
+                responseSchema: responseFormat.json_schema.schema
+                    ? mapJsonSchemaToGemini(responseFormat.json_schema.schema)
+                    : undefined,
+            };
+        default:
+            return {};
+    }
+};
+
 const mapSystemInstruction = (messages: OpenAI.ChatMessage[]): Gemini.SystemInstruction | undefined => {
     const systemMessage = messages.find(isSystemMessage);
     if (!systemMessage) {
@@ -106,6 +133,8 @@ const mapToolChoiceToToolConfig = (toolChoice?: OpenAI.ToolChoice): Gemini.ToolC
         mode = "NONE";
     } else if (toolChoice === "auto") {
         mode = "AUTO";
+    } else if (toolChoice === "required") {
+        mode = "ANY";
     } else if (typeof toolChoice === "object") {
         mode = "ANY";
         allowedFunctionNames = [toolChoice.function.name];
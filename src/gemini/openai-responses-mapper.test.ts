@@ -0,0 +1,246 @@
+import {describe, it, expect} from "vitest";
+import {
+    createResponseObject,
+    mapOpenAIResponsesRequestToChatCompletion,
+    mapOpenAIStreamToResponsesEvents,
+    mapResponsesInputToChatMessages
+} from "./openai-responses-mapper.js";
+import {mapOpenAIChatCompletionRequestToGemini} from "./openai-mapper.js";
+import * as OpenAI from "../types/openai.js";
+
+describe("mapResponsesInputToChatMessages", () => {
+    it("should map string input to a user message", () => {
+        expect(mapResponsesInputToChatMessages("Hello")).toEqual([{role: "user", content: "Hello"}]);
+    });
+
+    it("should map message items with text and image content", () => {
+        const result = mapResponsesInputToChatMessages([
+            {
+                role: "user",
+                content: [
+                    {type: "input_text", text: "What is this?"},
+                    {type: "input_image", image_url: "data:image/png;base64,abc"}
+                ]
+            }
+        ]);
+
+        expect(result).toEqual([
+            {
+                role: "user",
+                content: [
+                    {type: "text", text: "What is this?"},
+                    {type: "image_url", image_url: {url: "data:image/png;base64,abc", detail: undefined}}
+                ]
+            }
+        ]);
+    });
+
+    it("should merge reasoning, assistant text and function calls into one assistant message", () => {
+        const result = mapResponsesInputToChatMessages([
+            {type: "message", role: "user", content: "Weather in Paris and Rome?"},
+            {type: "reasoning", id: "rs_1", summary: [{type: "summary_text", text: "Need weather"}], encrypted_content: "sig-1"},
+            {type: "message", role: "assistant", content: [{type: "output_text", text: "Checking."}]},
+            {type: "function_call", call_id: "call_1", name: "get_weather", arguments: "{\"city\":\"Paris\"}"},
+            {type: "function_call", call_id: "call_2", name: "get_weather", arguments: "{\"city\":\"Rome\"}"},
+            {type: "function_call_output", call_id: "call_1", output: "sunny"},
+            {type: "function_call_output", call_id: "call_2", output: "rainy"}
+        ]);
+
+        expect(result).toEqual([
+            {role: "user", content: "Weather in Paris and Rome?"},
+            {
+                role: "assistant",
+                content: "Checking.",
+                thinking: "Need weather",
+                signature: "sig-1",
+                tool_calls: [
+                    {index: 0, id: "call_1", type: "function", function: {name: "get_weather", arguments: "{\"city\":\"Paris\"}"}},
+                    {index: 1, id: "call_2", type: "function", function: {name: "get_weather", arguments: "{\"city\":\"Rome\"}"}}
+                ]
+            },
+            {role: "tool", tool_call_id: "call_1", content: "sunny"},
+            {role: "tool", tool_call_id: "call_2", content: "rainy"}
+        ]);
+    });
+});
+
+describe("mapOpenAIResponsesRequestToChatCompletion", () => {
+    it("should map instructions, reasoning effort, tools and tool_choice", () => {
+        const request: OpenAI.ResponsesRequest = {
+            model: "gemini-2.5-pro",
+            input: "Hi",
+            instructions: "Be brief",
+            reasoning: {effort: OpenAI.ReasoningEffort.high},
+            tools: [{type: "function", name: "get_time", description: "Get the time", parameters: {type: "object"}}],
+            tool_choice: {type: "function", name: "get_time"}
+        };
+
+        const result = mapOpenAIResponsesRequestToChatCompletion(request, mapResponsesInputToChatMessages(request.input));
+
+        expect(result.messages).toEqual([
+            {role: "system", content: "Be brief"},
+            {role: "user", content: "Hi"}
+        ]);
+        expect(result.reasoning_effort).toBe("high");
+        expect(result.tools).toEqual([
+            {type: "function", function: {name: "get_time", description: "Get the time", parameters: {type: "object"}}}
+        ]);
+        expect(result.tool_choice).toEqual({type: "function", function: {name: "get_time"}});
+    });
+
+    it("should produce a Gemini request with functionResponse names resolved", () => {
+        const request: OpenAI.ResponsesRequest = {
+            model: "gemini-2.5-flash",
+            input: [
+                {type: "function_call", call_id: "call_1", name: "get_time", arguments: "{}"},
+                {type: "function_call_output", call_id: "call_1", output: "12:00"}
+            ],
+            tool_choice: "required"
+        };
+
+        const chatRequest = mapOpenAIResponsesRequestToChatCompletion(request, mapResponsesInputToChatMessages(request.input));
+        const result = mapOpenAIChatCompletionRequestToGemini(chatRequest);
+
+        expect(result.request.contents[1].parts).toEqual([
+            {functionResponse: {name: "get_time", response: {result: "12:00"}}}
+        ]);
+        expect(result.request.toolConfig).toEqual({functionCallingConfig: {mode: "ANY", allowedFunctionNames: undefined}});
+    });
+});
+
+describe("mapOpenAIStreamToResponsesEvents", () => {
+    const chunk = (delta: OpenAI.StreamDelta, finishReason: string | null = null): OpenAI.StreamChunk => ({
+        id: "chat-1",
+        object: "chat.completion.chunk",
+        created: 0,
+        model: "gemini-2.5-pro",
+        choices: [{index: 0, delta, finish_reason: finishReason}],
+    });
+
+    async function* streamOf(...chunks: OpenAI.StreamChunk[]): AsyncGenerator<OpenAI.StreamChunk> {
+        yield* chunks;
+    }
+
+    const collect = async (stream: AsyncIterable<OpenAI.ResponseStreamEvent>): Promise<OpenAI.ResponseStreamEvent[]> => {
+        const events: OpenAI.ResponseStreamEvent[] = [];
+        for await (const event of stream) {
+            events.push(event);
+        }
+        return events;
+    };
+
+    it("should emit reasoning, text and function call events in order", async () => {
+        const finalChunk = chunk({}, "tool_calls");
+        finalChunk.usage = {
+            prompt_tokens: 10,
+            completion_tokens: 20,
+            total_tokens: 30,
+            completion_tokens_details: {reasoning_tokens: 5}
+        };
+        const response = createResponseObject({model: "gemini-2.5-pro", input: "Hi"});
+
+        const events = await collect(mapOpenAIStreamToResponsesEvents(streamOf(
+            chunk({role: "assistant", thinking: "Thinking", signature: "sig-1"}),
+            chunk({content: "Hello"}),
+            chunk({content: " there"}),
+            chunk({tool_calls: [{index: 0, id: "call_1", type: "function", function: {name: "get_time", arguments: "{}"}}]}),
+            finalChunk,
+        ), response));
+
+        expect(events.map((event) => event.type)).toEqual([
+            "response.created",
+            "response.in_progress",
+            "response.output_item.added",
+            "response.reasoning_summary_part.added",
+            "response.reasoning_summary_text.delta",
+            "response.reasoning_summary_text.done",
+            "response.reasoning_summary_part.done",
+            "response.output_item.done",
+            "response.output_item.added",
+            "response.content_part.added",
+            "response.output_text.delta",
+            "response.output_text.delta",
+            "response.output_text.done",
+            "response.content_part.done",
+            "response.output_item.done",
+            "response.output_item.added",
+            "response.function_call_arguments.delta",
+            "response.function_call_arguments.done",
+            "response.output_item.done",
+            "response.completed",
+        ]);
+        expect(events.map((event) => event.sequence_number)).toEqual(events.map((_, index) => index));
+
+        const completed = events[events.length - 1] as Extract<OpenAI.ResponseStreamEvent, {response: OpenAI.ResponseObject}>;
+        expect(completed.response.status).toBe("completed");
+        expect(completed.response.output_text).toBe("Hello there");
+        expect(completed.response.output).toMatchObject([
+            {type: "reasoning", summary: [{type: "summary_text", text: "Thinking"}], encrypted_content: "sig-1", status: "completed"},
+            {type: "message", role: "assistant", content: [{type: "output_text", text: "Hello there", annotations: []}], status: "completed"},
+            {type: "function_call", call_id: "call_1", name: "get_time", arguments: "{}", status: "completed"},
+        ]);
+        expect(completed.response.usage).toEqual({
+            input_tokens: 10,
+            input_tokens_details: {cached_tokens: 0},
+            output_tokens: 20,
+            output_tokens_details: {reasoning_tokens: 5},
+            total_tokens: 30,
+        });
+    });
+
+    it("should add url citations to the output message", async () => {
+        const response = createResponseObject({model: "gemini-2.5-pro", input: "News?"});
+        const annotations: OpenAI.UrlCitationAnnotation[] = [
+            {type: "url_citation", url_citation: {url: "https://a.example", title: "a.example", start_index: 0, end_index: 5}}
+        ];
+
+        const events = await collect(mapOpenAIStreamToResponsesEvents(
+            streamOf(chunk({content: "Hello"}), chunk({annotations}), chunk({}, "stop")),
+            response,
+        ));
+
+        const annotation = {type: "url_citation", url: "https://a.example", title: "a.example", start_index: 0, end_index: 5};
+        expect(events).toContainEqual(expect.objectContaining({
+            type: "response.output_text.annotation.added",
+            output_index: 0,
+            content_index: 0,
+            annotation_index: 0,
+            annotation,
+        }));
+        const completed = events[events.length - 1] as Extract<OpenAI.ResponseStreamEvent, {response: OpenAI.ResponseObject}>;
+        expect(completed.response.output).toMatchObject([
+            {type: "message", content: [{type: "output_text", text: "Hello", annotations: [annotation]}]},
+        ]);
+    });
+
+    it("should end with response.incomplete when cut off by max_output_tokens", async () => {
+        const response = createResponseObject({model: "gemini-2.5-pro", input: "Hi", max_output_tokens: 16});
+
+        const events = await collect(mapOpenAIStreamToResponsesEvents(streamOf(chunk({content: "Hel"}), chunk({}, "length")), response));
+
+        const incomplete = events[events.length - 1] as Extract<OpenAI.ResponseStreamEvent, {response: OpenAI.ResponseObject}>;
+        expect(incomplete.type).toBe("response.incomplete");
+        expect(incomplete.response.status).toBe("incomplete");
+        expect(incomplete.response.incomplete_details).toEqual({reason: "max_output_tokens"});
+    });
+
+    it("should report content filtered responses as incomplete", async () => {
+        const response = createResponseObject({model: "gemini-2.5-pro", input: "Hi"});
+
+        const events = await collect(mapOpenAIStreamToResponsesEvents(streamOf(chunk({}, "content_filter")), response));
+
+        const incomplete = events[events.length - 1] as Extract<OpenAI.ResponseStreamEvent, {response: OpenAI.ResponseObject}>;
+        expect(incomplete.type).toBe("response.incomplete");
+        expect(incomplete.response.incomplete_details).toEqual({reason: "content_filter"});
+    });
+
+    it("should snapshot the response in response.created", async () => {
+        const response = createResponseObject({model: "gemini-2.5-pro", input: "Hi"});
+
+        const events = await collect(mapOpenAIStreamToResponsesEvents(streamOf(chunk({content: "Hello"})), response));
+
+        const created = events[0] as Extract<OpenAI.ResponseStreamEvent, {response: OpenAI.ResponseObject}>;
+        expect(created.response.status).toBe("in_progress");
+        expect(created.response.output).toEqual([]);
+    });
+});
@@ -0,0 +1,317 @@
+import * as OpenAI from "../types/openai.js";
+
+/**
+ * Maps Responses API input items to chat messages. Reasoning, assistant text and function calls of
+ * one turn are merged into a single assistant message, so the thought signature stays with its calls.
+ */
+export const mapResponsesInputToChatMessages = (input: string | OpenAI.ResponseInputItem[]): OpenAI.ChatMessage[] => {
+    if (typeof input === "string") {
+        return [{role: "user", content: input}];
+    }
+
+    const messages: OpenAI.ChatMessage[] = [];
+    let assistantMessage: OpenAI.ChatMessage | undefined;
+    const currentAssistantMessage = (): OpenAI.ChatMessage => {
+        if (!assistantMessage) {
+            assistantMessage = {role: "assistant", content: ""};
+            messages.push(assistantMessage);
+        }
+        return assistantMessage;
+    };
+
+    for (const item of input) {
+        if (item.type === "function_call") {
+            const message = currentAssistantMessage();
+            message.tool_calls = [...(message.tool_calls ?? []), {
+                index: message.tool_calls?.length ?? 0,
+                id: item.call_id,
+                type: "function",
+                function: {
+                    name: item.name,
+                    arguments: item.arguments || "{}",
+                },
+            }];
+        } else if (item.type === "function_call_output") {
+            assistantMessage = undefined;
+            messages.push({role: "tool", tool_call_id: item.call_id, content: item.output});
+        } else if (item.type === "reasoning") {
+            const message = currentAssistantMessage();
+            message.thinking = (message.thinking ?? "") + item.summary.map((summary) => summary.text).join("\n");
+            message.signature = message.signature ?? item.encrypted_content;
+        } else if (item.role === "assistant") {
+            const message = currentAssistantMessage();
+            message.content = message.content + mapResponseContentToText(item.content);
+        } else {
+            assistantMessage = undefined;
+            messages.push({role: item.role, content: mapResponseContentToChat(item.content)});
+        }
+    }
+
+    return messages;
+};
+
+const mapResponseContentToText = (content: string | OpenAI.ResponseInputContent[]): string => {
+    if (typeof content === "string") {
+        return content;
+    }
+    return content
+        .map((part) => (part.type === "input_text" || part.type === "output_text" ? part.text : ""))
+        .join("");
+};
+
+const mapResponseContentToChat = (content: string | OpenAI.ResponseInputContent[]): string | OpenAI.MessageContent[] => {
+    if (typeof content === "string") {
+        return content;
+    }
+
+    const result: OpenAI.MessageContent[] = [];
+    for (const part of content) {
+        if (part.type === "input_text" || part.type === "output_text") {
+            result.push({type: "text", text: part.text});
+        } else if (part.type === "input_image" && part.image_url) {
+            result.push({type: "image_url", image_url: {url: part.image_url, detail: part.detail}});
+        }
+    }
+    return result;
+};
+
+/**
+ * Builds a chat completion request from a Responses API request and its full conversation,
+ * so that it can go through the regular chat completion to Gemini mapping.
+ */
+export const mapOpenAIResponsesRequestToChatCompletion = (
+    request: OpenAI.ResponsesRequest,
+    conversation: OpenAI.ChatMessage[],
+): OpenAI.ChatCompletionRequest => {
+    const chatRequest: OpenAI.ChatCompletionRequest = {
+        model: request.model,
+        messages: request.instructions
+            ? [{role: "system", content: request.instructions}, ...conversation]
+            : conversation,
+        temperature: request.temperature,
+        max_completion_tokens: request.max_output_tokens,
+        reasoning_effort: request.reasoning?.effort,
+    };
+
+    const tools = (request.tools ?? []).filter((tool) => tool.type === "function");
+    if (tools.length > 0) {
+        chatRequest.tools = tools.map((tool) => ({
+            type: "function",
+            function: {
+                name: tool.name,
+                description: tool.description ?? "",
+                parameters: tool.parameters ?? {},
+            },
+        }));
+    }
+
+    if (request.tool_choice) {
+        chatRequest.tool_choice = typeof request.tool_choice === "object"
+            ? {type: "function", function: {name: request.tool_choice.name}}
+            : request.tool_choice;
+    }
+
+    return chatRequest;
+};
+
+/**
+ * Creates the in-progress response object that mapOpenAIStreamToResponsesEvents fills in
+ */
+export const createResponseObject = (request: OpenAI.ResponsesRequest): OpenAI.ResponseObject => ({
+    id: `resp_${crypto.randomUUID()}`,
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    status: "in_progress",
+    model: request.model,
+    output: [],
+    instructions: request.instructions ?? null,
+    previous_response_id: request.previous_response_id ?? null,
+    tools: request.tools ?? [],
+    usage: null,
+});
+
+/**
+ * Translates the OpenAI chat chunks produced by GeminiApiClient.streamContent into typed Responses
+ * API stream events. Thinking becomes a reasoning item whose encrypted_content carries the signature.
+ * The last event is response.completed (response.incomplete when cut off by max_output_tokens
+ * or content filters) with the final response object.
+ */
+export async function* mapOpenAIStreamToResponsesEvents(
+    stream: AsyncIterable<OpenAI.StreamChunk>,
+    response: OpenAI.ResponseObject,
+): AsyncGenerator<OpenAI.ResponseStreamEvent> {
+    let sequenceNumber = 0;
+    const event = (body: OpenAI.ResponseStreamEventBody): OpenAI.ResponseStreamEvent => ({
+        ...structuredClone(body),
+        sequence_number: sequenceNumber++,
+    });
+
+    // Like Anthropic's message_start, response.created waits for Gemini to start responding
+    let started = false;
+    const start = (): OpenAI.ResponseStreamEvent[] => {
+        if (started) {
+            return [];
+        }
+        started = true;
+        return [
+            event({type: "response.created", response}),
+            event({type: "response.in_progress", response}),
+        ];
+    };
+
+    let openItem: OpenAI.ResponseOutputItem | undefined;
+    let thoughtSignature: string | undefined;
+    let usage: OpenAI.UsageData | undefined;
+    let finishReason: string | null = null;
+
+    const outputIndex = () => response.output.length - 1;
+
+    const closeOpenItem = (): OpenAI.ResponseStreamEvent[] => {
+        if (!openItem) {
+            return [];
+        }
+
+        const item = openItem;
+        const events: OpenAI.ResponseStreamEvent[] = [];
+        openItem = undefined;
+
+        if (item.type === "reasoning") {
+            const part = item.summary[0];
+            events.push(
+                event({type: "response.reasoning_summary_text.done", item_id: item.id, output_index: outputIndex(), summary_index: 0, text: part.text}),
+                event({type: "response.reasoning_summary_part.done", item_id: item.id, output_index: outputIndex(), summary_index: 0, part}),
+            );
+            item.encrypted_content = thoughtSignature;
+        } else if (item.type === "message") {
+            const part = item.content[0];
+            events.push(
+                event({type: "response.output_text.done", item_id: item.id, output_index: outputIndex(), content_index: 0, text: part.text}),
+                event({type: "response.content_part.done", item_id: item.id, output_index: outputIndex(), content_index: 0, part}),
+            );
+        } else {
+            events.push(event({type: "response.function_call_arguments.done", item_id: item.id!, output_index: outputIndex(), arguments: item.arguments}));
+        }
+
+        item.status = "completed";
+        events.push(event({type: "response.output_item.done", output_index: outputIndex(), item}));
+        return events;
+    };
+
+    const addItem = (item: OpenAI.ResponseOutputItem): OpenAI.ResponseStreamEvent => {
+        response.output.push(item);
+        openItem = item;
+        return event({type: "response.output_item.added", output_index: outputIndex(), item});
+    };
+
+    for await (const chunk of stream) {
+        // Report the model that answered, which differs from the requested one after an auto switch
+        response.model = chunk.model;
+        yield* start();
+        if (chunk.usage) {
+            usage = chunk.usage;
+        }
+        if (chunk.choices?.[0]?.finish_reason) {
+            finishReason = chunk.choices[0].finish_reason;
+        }
+
+        const delta = chunk.choices?.[0]?.delta;
+        if (!delta) {
+            continue;
+        }
+
+        if (delta.signature) {
+            thoughtSignature = delta.signature;
+        }
+
+        if (delta.thinking) {
+            if (openItem?.type !== "reasoning") {
+                yield* closeOpenItem();
+                const item: OpenAI.ResponseReasoningItem = {type: "reasoning", id: `rs_${crypto.randomUUID()}`, summary: [], status: "in_progress"};
+                yield addItem(item);
+                const part: OpenAI.ResponseSummaryText = {type: "summary_text", text: ""};
+                yield event({type: "response.reasoning_summary_part.added", item_id: item.id, output_index: outputIndex(), summary_index: 0, part});
+                item.summary.push(part);
+            }
+            const item = openItem as OpenAI.ResponseReasoningItem;
+            item.summary[0].text += delta.thinking;
+            yield event({type: "response.reasoning_summary_text.delta", item_id: item.id, output_index: outputIndex(), summary_index: 0, delta: delta.thinking});
+        }
+
+        if (delta.content) {
+            if (openItem?.type !== "message") {
+                yield* closeOpenItem();
+                const item: OpenAI.ResponseOutputMessage = {type: "message", id: `msg_${crypto.randomUUID()}`, status: "in_progress", role: "assistant", content: []};
+                yield addItem(item);
+                const part: OpenAI.ResponseOutputText = {type: "output_text", text: "", annotations: []};
+                yield event({type: "response.content_part.added", item_id: item.id, output_index: outputIndex(), content_index: 0, part});
+                item.content.push(part);
+            }
+            const item = openItem as OpenAI.ResponseOutputMessage;
+            item.content[0].text += delta.content;
+            yield event({type: "response.output_text.delta", item_id: item.id, output_index: outputIndex(), content_index: 0, delta: delta.content});
+        }
+
+        // Url citations of Google Search grounding annotate the last output message
+        const messageIndex = response.output.findLastIndex((item) => item.type === "message");
+        if (delta.annotations && messageIndex !== -1) {
+            const item = response.output[messageIndex] as OpenAI.ResponseOutputMessage;
+            for (const {url_citation: citation} of delta.annotations) {
+                const annotation: OpenAI.ResponseUrlCitation = {type: "url_citation", ...citation};
+                item.content[0].annotations.push(annotation);
+                yield event({
+                    type: "response.output_text.annotation.added",
+                    item_id: item.id,
+                    output_index: messageIndex,
+                    content_index: 0,
+                    annotation_index: item.content[0].annotations.length - 1,
+                    annotation,
+                });
+            }
+        }
+
+        for (const toolCall of delta.tool_calls ?? []) {
+            // A tool call without an id continues the arguments of the open function call
+            if (toolCall.id || openItem?.type !== "function_call") {
+                yield* closeOpenItem();
+                yield addItem({
+                    type: "function_call",
+                    id: `fc_${crypto.randomUUID()}`,
+                    call_id: toolCall.id ?? "",
+                    name: toolCall.function.name ?? "",
+                    arguments: "",
+                    status: "in_progress",
+                });
+            }
+            const item = openItem as OpenAI.ResponseFunctionCallItem;
+            if (toolCall.function.arguments) {
+                item.arguments += toolCall.function.arguments;
+                yield event({type: "response.function_call_arguments.delta", item_id: item.id!, output_index: outputIndex(), delta: toolCall.function.arguments});
+            }
+        }
+    }
+
+    yield* start();
+    yield* closeOpenItem();
+
+    if (finishReason === "length" || finishReason === "content_filter") {
+        response.status = "incomplete";
+        response.incomplete_details = {reason: finishReason === "length" ? "max_output_tokens" : "content_filter"};
+    } else {
+        response.status = "completed";
+    }
+    response.output_text = response.output
+        .filter((item) => item.type === "message")
+        .map((item) => item.content.map((part) => part.text).join(""))
+        .join("");
+    if (usage) {
+        response.usage = {
+            input_tokens: usage.prompt_tokens,
+            input_tokens_details: {cached_tokens: usage.prompt_tokens_details?.cached_tokens ?? 0},
+            output_tokens: usage.completion_tokens,
+            output_tokens_details: {reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens ?? 0},
+            total_tokens: usage.total_tokens,
+        };
+    }
+
+    yield event({type: response.status === "incomplete" ? "response.incomplete" : "response.completed", response});
+}
@@ -0,0 +1,59 @@
+import {describe, it, expect} from "vitest";
+import {PartialArgsSerializer, parseJsonPath} from "./partial-args.js";
+import * as Gemini from "../types/gemini.js";
+
+const serialize = (partialArgs: Gemini.PartialArg[]): string[] => {
+    const serializer = new PartialArgsSerializer();
+    return [...partialArgs.map((partialArg) => serializer.write(partialArg)), serializer.end()];
+};
+
+describe("parseJsonPath", () => {
+    it("should parse keys, indices and quoted keys", () => {
+        expect(parseJsonPath("$.files[1].content")).toEqual(["files", 1, "content"]);
+        expect(parseJsonPath("$['file name'][\"a.b\"]")).toEqual(["file name", "a.b"]);
+        expect(parseJsonPath("$")).toEqual([]);
+    });
+});
+
+describe("PartialArgsSerializer", () => {
+    it("should serialize an empty call as an empty object", () => {
+        expect(serialize([]).join("")).toBe("{}");
+    });
+
+    it("should stream a string value split over several fragments", () => {
+        const fragments = serialize([
+            {jsonPath: "$.path", stringValue: "a.txt"},
+            {jsonPath: "$.content", stringValue: "line 1\n", willContinue: true},
+            {jsonPath: "$.content", stringValue: "line \"2\"", willContinue: true},
+            {jsonPath: "$.content", stringValue: ""},
+        ]);
+
+        expect(fragments).toEqual(["{\"path\":\"a.txt\"", ",\"content\":\"line 1\\n", "line \\\"2\\\"", "\"", "}"]);
+        expect(JSON.parse(fragments.join(""))).toEqual({path: "a.txt", content: "line 1\nline \"2\""});
+    });
+
+    it("should open and close nested objects and arrays", () => {
+        const text = serialize([
+            {jsonPath: "$.options.recursive", boolValue: true},
+            {jsonPath: "$.options.depth", numberValue: 2},
+            {jsonPath: "$.files[0].name", stringValue: "a"},
+            {jsonPath: "$.files[0].size", numberValue: 1.5},
+            {jsonPath: "$.files[1].name", stringValue: "b"},
+            {jsonPath: "$.files[1].owner", nullValue: "NULL_VALUE"},
+            {jsonPath: "$.tags[0]", stringValue: "x"},
+            {jsonPath: "$.tags[1]", stringValue: "y"},
+            {jsonPath: "$.done", boolValue: false},
+        ]).join("");
+
+        expect(JSON.parse(text)).toEqual({
+            options: {recursive: true, depth: 2},
+            files: [{name: "a", size: 1.5}, {name: "b", owner: null}],
+            tags: ["x", "y"],
+            done: false,
+        });
+    });
+
+    it("should close a string that is still open when the call ends", () => {
+        expect(JSON.parse(serialize([{jsonPath: "$.content", stringValue: "partial", willContinue: true}]).join(""))).toEqual({content: "partial"});
+    });
+});
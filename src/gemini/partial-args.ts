@@ -0,0 +1,126 @@
+import * as Gemini from "../types/gemini.js";
+
+type Container = {
+    type: "object" | "array";
+    size: number;
+};
+
+/**
+ * Parses a partial argument JSON path like $.files[0].content into its keys and indices
+ */
+export const parseJsonPath = (jsonPath: string): Array<string | number> => {
+    const segments: Array<string | number> = [];
+    const pattern = /\.([^.[\]]+)|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\]/g;
+    for (const match of jsonPath.replace(/^\$/, "").matchAll(pattern)) {
+        if (match[2] !== undefined) {
+            segments.push(Number(match[2]));
+        } else {
+            segments.push(match[1] ?? match[3] ?? match[4]);
+        }
+    }
+    return segments;
+};
+
+/**
+ * Serializes the streamed partial arguments of one function call into JSON text as they arrive,
+ * so every fragment can be forwarded as an OpenAI arguments delta. Gemini streams the arguments
+ * in document order, string values may be split over several fragments of the same path.
+ */
+export class PartialArgsSerializer {
+    // Open containers from the root object down, path holds the key of every nested one
+    private readonly stack: Container[] = [];
+    private readonly path: Array<string | number> = [];
+    private openStringPath?: string;
+
+    /**
+     * Returns the JSON text that continues the arguments with the given partial argument
+     */
+    write(partialArg: Gemini.PartialArg): string {
+        if (this.openStringPath === partialArg.jsonPath && partialArg.stringValue !== undefined) {
+            return this.writeString(partialArg);
+        }
+
+        let text = this.closeString();
+        if (this.stack.length === 0) {
+            text += "{";
+            this.stack.push({type: "object", size: 0});
+        }
+
+        const segments = parseJsonPath(partialArg.jsonPath);
+        if (segments.length === 0) {
+            return text;
+        }
+
+        // Close the containers the value is not part of, then open the ones leading to it
+        const parents = segments.slice(0, -1);
+        let common = 0;
+        while (common < this.path.length && common < parents.length && this.path[common] === parents[common]) {
+            common++;
+        }
+        while (this.path.length > common) {
+            text += this.closeContainer();
+        }
+        for (let i = common; i < parents.length; i++) {
+            const type = typeof segments[i + 1] === "number" ? "array" : "object";
+            text += this.key(parents[i]) + (type === "array" ? "[" : "{");
+            this.stack.push({type, size: 0});
+            this.path.push(parents[i]);
+        }
+
+        text += this.key(segments[segments.length - 1]);
+        if (partialArg.stringValue !== undefined) {
+            return text + "\"" + this.writeString(partialArg);
+        }
+        if (partialArg.numberValue !== undefined) {
+            return text + JSON.stringify(partialArg.numberValue);
+        }
+        if (partialArg.boolValue !== undefined) {
+            return text + String(partialArg.boolValue);
+        }
+        return text + "null";
+    }
+
+    /**
+     * Returns the JSON text that completes the arguments
+     */
+    end(): string {
+        if (this.stack.length === 0) {
+            return "{}";
+        }
+        let text = this.closeString();
+        while (this.stack.length > 0) {
+            text += this.closeContainer();
+        }
+        return text;
+    }
+
+    private writeString(partialArg: Gemini.PartialArg): string {
+        const fragment = JSON.stringify(partialArg.stringValue ?? "").slice(1, -1);
+        if (partialArg.willContinue) {
+            this.openStringPath = partialArg.jsonPath;
+            return fragment;
+        }
+        this.openStringPath = undefined;
+        return fragment + "\"";
+    }
+
+    private closeString(): string {
+        if (this.openStringPath === undefined) {
+            return "";
+        }
+        this.openStringPath = undefined;
+        return "\"";
+    }
+
+    private closeContainer(): string {
+        const container = this.stack.pop();
+        this.path.pop();
+        return container?.type === "array" ? "]" : "}";
+    }
+
+    private key(segment: string | number): string {
+        const container = this.stack[this.stack.length - 1];
+        const separator = container.size++ > 0 ? "," : "";
+        return container.type === "object" ? `${separator}${JSON.stringify(String(segment))}:` : separator;
+    }
+}
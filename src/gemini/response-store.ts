@@ -0,0 +1,59 @@
+/**
+ * In-memory store of Responses API conversations.
+ *
+ * Clients continue a conversation by sending previous_response_id instead of the full history,
+ * so we keep the chat messages of every stored response (its input plus its output) keyed by id.
+ */
+
+import * as OpenAI from "../types/openai.js";
+
+interface StoredResponse {
+    messages: OpenAI.ChatMessage[];
+    timestamp: number;
+}
+
+// Stored responses expire after 1 hour, like cached thought signatures
+const STORE_EXPIRY_MS = 60 * 60 * 1000;
+
+// Maximum number of stored responses to bound memory usage
+const MAX_STORE_SIZE = 1000;
+
+class ResponseStore {
+    private responses = new Map<string, StoredResponse>();
+
+    /**
+     * Store the conversation that ends with the given response
+     */
+    store(responseId: string, messages: OpenAI.ChatMessage[]): void {
+        if (this.responses.size >= MAX_STORE_SIZE) {
+            const oldestKey = this.responses.keys().next().value;
+            if (oldestKey) this.responses.delete(oldestKey);
+        }
+        this.responses.set(responseId, {messages, timestamp: Date.now()});
+    }
+
+    /**
+     * Retrieve the conversation of a stored response, undefined when unknown or expired
+     */
+    get(responseId: string): OpenAI.ChatMessage[] | undefined {
+        const stored = this.responses.get(responseId);
+        if (!stored) {
+            return undefined;
+        }
+        if (Date.now() - stored.timestamp > STORE_EXPIRY_MS) {
+            this.responses.delete(responseId);
+            return undefined;
+        }
+        return stored.messages;
+    }
+
+    /**
+     * Clear all stored responses (useful for testing)
+     */
+    clear(): void {
+        this.responses.clear();
+    }
+}
+
+// Singleton instance
+export const responseStore = new ResponseStore();
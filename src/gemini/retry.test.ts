@@ -0,0 +1,68 @@
+import {describe, it, expect} from "vitest";
+import {getEventListeners} from "events";
+import {InvalidArgumentError} from "@commander-js/extra-typings";
+import {DEFAULT_RETRY_OPTIONS, UpstreamTimeoutError, getRetryDelay, isRetryableError, parseStatusCodes, withRetry} from "./retry.js";
+import {GeminiResponseError} from "./errors.js";
+
+describe("getRetryDelay", () => {
+    const options = {...DEFAULT_RETRY_OPTIONS, initialDelayMs: 100, maxDelayMs: 1000, jitter: 0.5};
+
+    it("should double the delay for every retry up to the maximum", () => {
+        expect([1, 2, 3, 4, 5].map((retry) => getRetryDelay(retry, options, undefined, () => 0))).toEqual([100, 200, 400, 800, 1000]);
+    });
+
+    it("should randomize the configured fraction of the delay", () => {
+        expect(getRetryDelay(2, options, undefined, () => 1)).toBe(100);
+        expect(getRetryDelay(2, options, undefined, () => 0.5)).toBe(150);
+    });
+
+    it("should wait as long as upstream asked, at most the maximum", () => {
+        expect(getRetryDelay(1, options, {retryAfterMs: 700})).toBe(700);
+        expect(getRetryDelay(1, options, {retryAfterMs: 30000})).toBe(1000);
+    });
+});
+
+describe("isRetryableError", () => {
+    it("should retry configured status codes, network errors and timeouts", () => {
+        expect(isRetryableError({statusCode: 502}, DEFAULT_RETRY_OPTIONS)).toBe(true);
+        expect(isRetryableError(new TypeError("fetch failed"), DEFAULT_RETRY_OPTIONS)).toBe(true);
+        expect(isRetryableError(new UpstreamTimeoutError(1000), DEFAULT_RETRY_OPTIONS)).toBe(true);
+        expect(isRetryableError(new UpstreamTimeoutError(1000), {...DEFAULT_RETRY_OPTIONS, retryTimeouts: false})).toBe(false);
+    });
+
+    it("should not retry client errors, rate limits and programming errors", () => {
+        expect(isRetryableError({statusCode: 400}, DEFAULT_RETRY_OPTIONS)).toBe(false);
+        expect(isRetryableError({statusCode: 429}, DEFAULT_RETRY_OPTIONS)).toBe(false);
+        expect(isRetryableError(new TypeError("x is not a function"), DEFAULT_RETRY_OPTIONS)).toBe(false);
+    });
+
+    it("should not retry answers Gemini failed to generate", () => {
+        expect(isRetryableError(new GeminiResponseError("malformed function call", 502, "MALFORMED_FUNCTION_CALL"), DEFAULT_RETRY_OPTIONS)).toBe(false);
+    });
+});
+
+describe("withRetry", () => {
+    const options = {...DEFAULT_RETRY_OPTIONS, initialDelayMs: 1, maxDelayMs: 1, jitter: 0};
+
+    it("should leave no listeners on the caller's signal after retries", async () => {
+        const controller = new AbortController();
+        let attempts = 0;
+        const flaky = async () => {
+            if (++attempts < 3) {
+                throw {statusCode: 502};
+            }
+            return "done";
+        };
+
+        expect(await withRetry(flaky, options, controller.signal)).toBe("done");
+        expect(attempts).toBe(3);
+        expect(getEventListeners(controller.signal, "abort")).toHaveLength(0);
+    });
+});
+
+describe("parseStatusCodes", () => {
+    it("should parse a comma separated list", () => {
+        expect(parseStatusCodes("500, 503")).toEqual([500, 503]);
+        expect(() => parseStatusCodes("500,abc")).toThrow(InvalidArgumentError);
+    });
+});
@@ -0,0 +1,219 @@
+/**
+ * Retry policy for transient upstream failures: server errors, network errors and timeouts.
+ *
+ * Every attempt gets its own AbortController, aborted when upstream does not start answering
+ * within the timeout. Streams are only retried until their first value, once a chunk reached the
+ * client a retry would send parts of the answer twice. Rate limits are left to auto model switching,
+ * and answers Gemini refused or failed to generate are not retried since they cost a full generation.
+ */
+
+import chalk from "chalk";
+import {InvalidArgumentError} from "@commander-js/extra-typings";
+import {
+    DEFAULT_REQUEST_TIMEOUT_MS,
+    DEFAULT_RETRY_INITIAL_DELAY_MS,
+    DEFAULT_RETRY_JITTER,
+    DEFAULT_RETRY_MAX_ATTEMPTS,
+    DEFAULT_RETRY_MAX_DELAY_MS,
+    RETRYABLE_STATUS_CODES,
+} from "../utils/constant.js";
+import {getLogger} from "../utils/logger.js";
+import {GeminiResponseError} from "./errors.js";
+
+export type RetryOptions = {
+    // Attempts including the first one, 1 disables retries
+    maxAttempts: number;
+    // Delay before the first retry, doubled for every further retry up to maxDelayMs
+    initialDelayMs: number;
+    maxDelayMs: number;
+    // Fraction of the delay that is randomized, so concurrent requests don't retry in lockstep
+    jitter: number;
+    retryableStatusCodes: number[];
+    // Time upstream has to start answering an attempt
+    timeoutMs: number;
+    // Whether attempts that timed out are retried, true unless set to false
+    retryTimeouts?: boolean;
+};
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxAttempts: DEFAULT_RETRY_MAX_ATTEMPTS,
+    initialDelayMs: DEFAULT_RETRY_INITIAL_DELAY_MS,
+    maxDelayMs: DEFAULT_RETRY_MAX_DELAY_MS,
+    jitter: DEFAULT_RETRY_JITTER,
+    retryableStatusCodes: [...RETRYABLE_STATUS_CODES],
+    timeoutMs: DEFAULT_REQUEST_TIMEOUT_MS,
+};
+
+/**
+ * Error for an attempt upstream did not start answering in time
+ */
+export class UpstreamTimeoutError extends Error {
+    readonly statusCode = 504;
+
+    constructor(public readonly timeoutMs: number) {
+        super(`Gemini did not respond within ${timeoutMs}ms`);
+        this.name = "UpstreamTimeoutError";
+    }
+}
+
+const logger = getLogger("RETRY", chalk.magenta);
+
+/**
+ * Parses the retryable status codes CLI option, e.g. 500,502,504
+ */
+export const parseStatusCodes = (value: string): number[] => {
+    const codes = value.split(",").map((code) => Number(code.trim()));
+    if (codes.some((code) => !Number.isInteger(code) || code < 100 || code > 599)) {
+        throw new InvalidArgumentError("Expected HTTP status codes <code>[,<code>...].");
+    }
+    return codes;
+};
+
+/**
+ * Whether an attempt failed for a reason that may go away on its own
+ */
+export const isRetryableError = (error: unknown, options: RetryOptions): boolean => {
+    if (error instanceof UpstreamTimeoutError) {
+        return options.retryTimeouts !== false;
+    }
+    if (error instanceof GeminiResponseError) {
+        return false;
+    }
+    // undici reports connection failures as "fetch failed" and connections dropped mid-body as "terminated"
+    if (error instanceof TypeError) {
+        return error.message === "fetch failed" || error.message === "terminated";
+    }
+    const {statusCode} = (error ?? {}) as {statusCode?: unknown};
+    return typeof statusCode === "number" && options.retryableStatusCodes.includes(statusCode);
+};
+
+/**
+ * Delay before the given retry, exponential with jitter. A delay upstream asked for wins
+ * as long as it stays below maxDelayMs.
+ * @param {number} retry - Number of the retry, starting at 1
+ * @param {RetryOptions} options - Retry policy
+ * @param {unknown} error - Error of the failed attempt
+ * @param {Function} random - Source of the jitter
+ * @returns {number} Delay in milliseconds
+ */
+export const getRetryDelay = (
+    retry: number,
+    options: RetryOptions,
+    error?: unknown,
+    random: () => number = Math.random,
+): number => {
+    const {retryAfterMs} = (error ?? {}) as {retryAfterMs?: number};
+    if (retryAfterMs !== undefined) {
+        return Math.min(retryAfterMs, options.maxDelayMs);
+    }
+    const delay = Math.min(options.initialDelayMs * 2 ** (retry - 1), options.maxDelayMs);
+    return Math.round(delay * (1 - options.jitter * random()));
+};
+
+/**
+ * Starts an attempt whose signal is aborted with an UpstreamTimeoutError after the timeout,
+ * or with the reason of the caller's signal when the caller cancels the request
+ */
+const startAttempt = (options: RetryOptions, callerSignal?: AbortSignal) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new UpstreamTimeoutError(options.timeoutMs)), options.timeoutMs);
+    const cancel = () => controller.abort(callerSignal?.reason);
+    if (callerSignal?.aborted) {
+        cancel();
+    }
+    callerSignal?.addEventListener("abort", cancel);
+    return {
+        signal: controller.signal,
+        // Upstream started answering, the timeout no longer applies
+        answered: () => clearTimeout(timer),
+        // Errors of an aborted attempt are reported as the reason it was aborted for
+        error: (error: unknown): unknown => controller.signal.aborted ? controller.signal.reason : error,
+        close: () => {
+            clearTimeout(timer);
+            callerSignal?.removeEventListener("abort", cancel);
+            controller.abort();
+        },
+    };
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const abort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    // The caller's signal lives as long as the request, every retry would leave a listener on it
+    const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", abort);
+        resolve();
+    }, ms);
+    signal?.addEventListener("abort", abort, {once: true});
+});
+
+/**
+ * Runs a request, retrying transient failures
+ * @param {Function} operation - Request of one attempt, aborted through the signal
+ * @param {RetryOptions} options - Retry policy
+ * @param {AbortSignal} callerSignal - Cancels the request, it is not retried once cancelled
+ * @returns {Promise<T>} Result of the first successful attempt
+ */
+export const withRetry = async <T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    options: RetryOptions,
+    callerSignal?: AbortSignal,
+): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        const {signal, error: attemptError, close} = startAttempt(options, callerSignal);
+        try {
+            return await operation(signal);
+        } catch (caught) {
+            const error = attemptError(caught);
+            if (callerSignal?.aborted || attempt >= options.maxAttempts || !isRetryableError(error, options)) {
+                throw error;
+            }
+            const delay = getRetryDelay(attempt, options, error);
+            logger.warn(`attempt ${attempt} failed (${error instanceof Error ? error.message : String(error)}), retrying in ${delay}ms`);
+            await sleep(delay, callerSignal);
+        } finally {
+            close();
+        }
+    }
+};
+
+/**
+ * Streams a request, retrying transient failures until the first value was yielded
+ * @param {Function} operation - Stream of one attempt, aborted through the signal
+ * @param {RetryOptions} options - Retry policy
+ * @param {AbortSignal} callerSignal - Cancels the request, it is not retried once cancelled
+ * @returns {AsyncGenerator<T>} Values of the first attempt that started answering
+ */
+export async function* withStreamRetry<T>(
+    operation: (signal: AbortSignal) => AsyncIterable<T>,
+    options: RetryOptions,
+    callerSignal?: AbortSignal,
+): AsyncGenerator<T> {
+    for (let attempt = 1; ; attempt++) {
+        const {signal, answered, error: attemptError, close} = startAttempt(options, callerSignal);
+        let started = false;
+        try {
+            for await (const value of operation(signal)) {
+                if (!started) {
+                    started = true;
+                    answered();
+                }
+                yield value;
+            }
+            return;
+        } catch (caught) {
+            const error = attemptError(caught);
+            if (started || callerSignal?.aborted || attempt >= options.maxAttempts || !isRetryableError(error, options)) {
+                throw error;
+            }
+            const delay = getRetryDelay(attempt, options, error);
+            logger.warn(`attempt ${attempt} failed (${error instanceof Error ? error.message : String(error)}), retrying in ${delay}ms`);
+            await sleep(delay, callerSignal);
+        } finally {
+            // Also cancels the upstream request when the consumer stops reading early
+            close();
+        }
+    }
+}
@@ -0,0 +1,81 @@
+import * as OpenAI from "../types/openai.js";
+import * as Gemini from "../types/gemini.js";
+import {OPENAI_CHAT_COMPLETION_OBJECT} from "../utils/constant.js";
+import type {PartialArgsSerializer} from "./partial-args.js";
+import type {Account} from "./account-pool.js";
+
+/**
+ * Streaming state of one choice, fed by one Gemini response candidate
+ */
+export type ChoiceState = {
+    index: number;
+    firstChunk: boolean;
+    // Ids of the tool calls of the choice, the position of an id is the OpenAI tool call index
+    toolCallIds: string[];
+    // Call whose arguments are still being streamed as partial arguments
+    streamedToolCall?: {index: number; serializer: PartialArgsSerializer};
+    finishReason?: Gemini.FinishReason;
+    // Thought signature and text, cached with the tool calls of the turn
+    currentThoughtSignature?: string;
+    accumulatedThoughtText: string;
+    // Buffer for parsing <thinking> tags from content (handles streaming chunks)
+    thinkingTagBuffer: string;
+    insideThinkingTag: boolean;
+};
+
+/**
+ * State of one streamed completion request. GeminiApiClient is shared by all requests,
+ * so everything that belongs to a single stream (chunk id, role emission, tag buffers,
+ * tool call indices) lives here instead of on the client.
+ */
+export class StreamSession {
+    readonly id = `chat-${crypto.randomUUID()}`;
+    readonly created = Math.floor(Date.now() / 1000);
+    private readonly choices = new Map<number, ChoiceState>();
+
+    constructor(
+        readonly model: string,
+        // Account the stream is requested with
+        readonly account: Account,
+        // Aborts the upstream requests of the stream
+        readonly signal?: AbortSignal,
+    ) {}
+
+    /**
+     * State of the choice with the given index, created on first use
+     */
+    choice(index: number): ChoiceState {
+        let state = this.choices.get(index);
+        if (!state) {
+            state = {
+                index,
+                firstChunk: true,
+                toolCallIds: [],
+                accumulatedThoughtText: "",
+                thinkingTagBuffer: "",
+                insideThinkingTag: false,
+            };
+            this.choices.set(index, state);
+        }
+        return state;
+    }
+
+    /**
+     * Creates an OpenAI stream chunk with the given delta
+     */
+    createChunk(delta: OpenAI.StreamDelta, index: number = 0, finishReason: string | null = null): OpenAI.StreamChunk {
+        return {
+            id: this.id,
+            object: OPENAI_CHAT_COMPLETION_OBJECT,
+            created: this.created,
+            model: this.model,
+            choices: [{
+                index,
+                delta,
+                finish_reason: finishReason,
+                logprobs: null
+            }],
+            usage: null
+        };
+    }
+}
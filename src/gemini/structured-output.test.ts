@@ -0,0 +1,123 @@
+import {describe, it, expect} from "vitest";
+import {enforceStructuredOutput, validateStructuredOutput} from "./structured-output.js";
+import * as OpenAI from "../types/openai.js";
+
+const responseFormat: OpenAI.ResponseFormat = {
+    type: "json_schema",
+    json_schema: {
+        name: "invoice",
+        strict: true,
+        schema: {
+            type: "object",
+            properties: {
+                number: {type: "string"},
+                total: {type: "number"}
+            },
+            required: ["number", "total"],
+            additionalProperties: false
+        }
+    }
+};
+
+describe("validateStructuredOutput", () => {
+    it("should accept content that matches the schema", () => {
+        expect(validateStructuredOutput("{\"number\":\"A-1\",\"total\":12.5}", responseFormat)).toBeUndefined();
+    });
+
+    it("should reject content that is not JSON", () => {
+        expect(validateStructuredOutput("Sure! Here is the invoice", responseFormat))
+            .toBe("Response is not valid JSON for schema invoice");
+    });
+
+    it("should reject content that violates the schema", () => {
+        const result = validateStructuredOutput("{\"number\":\"A-1\",\"total\":\"12.5\",\"note\":\"\"}", responseFormat);
+
+        expect(result).toContain("Response does not match schema invoice");
+        expect(result).toContain("must be number");
+        expect(result).toContain("must NOT have additional properties");
+    });
+
+    it("should not validate json_object or non-strict schemas", () => {
+        expect(validateStructuredOutput("not json", {type: "json_object"})).toBeUndefined();
+        expect(validateStructuredOutput("not json", {
+            type: "json_schema",
+            json_schema: {...(responseFormat as {json_schema: object}).json_schema, name: "invoice", strict: false}
+        })).toBeUndefined();
+        expect(validateStructuredOutput("not json", undefined)).toBeUndefined();
+    });
+});
+
+describe("enforceStructuredOutput", () => {
+    const chunk = (delta: OpenAI.StreamDelta, finishReason: string | null = null): OpenAI.StreamChunk => ({
+        id: "chat-1",
+        object: "chat.completion.chunk",
+        created: 0,
+        model: "gemini-2.5-flash",
+        choices: [{index: 0, delta, finish_reason: finishReason}],
+    });
+
+    async function* streamOf(...chunks: OpenAI.StreamChunk[]): AsyncGenerator<OpenAI.StreamChunk> {
+        yield* chunks;
+    }
+
+    const collect = async (stream: AsyncIterable<OpenAI.StreamChunk>): Promise<OpenAI.StreamChunk[]> => {
+        const chunks: OpenAI.StreamChunk[] = [];
+        for await (const item of stream) {
+            chunks.push(item);
+        }
+        return chunks;
+    };
+
+    it("should pass conforming streams through unchanged", async () => {
+        const chunks = await collect(enforceStructuredOutput(
+            streamOf(chunk({content: "{\"number\":\"A-1\","}), chunk({content: "\"total\":3}"}), chunk({}, "stop")),
+            responseFormat,
+        ));
+
+        expect(chunks.map((item) => item.choices[0].delta)).toEqual([
+            {content: "{\"number\":\"A-1\","},
+            {content: "\"total\":3}"},
+            {}
+        ]);
+    });
+
+    it("should add a refusal to the final chunk when the content violates the schema", async () => {
+        const chunks = await collect(enforceStructuredOutput(
+            streamOf(chunk({content: "{\"number\":1}"}), chunk({}, "stop")),
+            responseFormat,
+        ));
+
+        expect(chunks[1].choices[0].delta.refusal).toContain("Response does not match schema invoice");
+    });
+
+    it("should validate every choice separately", async () => {
+        const secondChoice = (delta: OpenAI.StreamDelta, finishReason: string | null = null): OpenAI.StreamChunk => {
+            const item = chunk(delta, finishReason);
+            item.choices[0].index = 1;
+            return item;
+        };
+
+        const chunks = await collect(enforceStructuredOutput(
+            streamOf(
+                chunk({content: "{\"number\":\"A-1\","}),
+                secondChoice({content: "{\"number\":2}"}),
+                chunk({content: "\"total\":3}"}),
+                chunk({}, "stop"),
+                secondChoice({}, "stop"),
+            ),
+            responseFormat,
+        ));
+
+        expect(chunks[3].choices[0].delta.refusal).toBeUndefined();
+        expect(chunks[4].choices[0].delta.refusal).toContain("Response does not match schema invoice");
+    });
+
+    it("should not validate output cut off by max tokens", async () => {
+        const chunks = await collect(enforceStructuredOutput(
+            streamOf(chunk({content: "{\"number\":"}), chunk({}, "length")),
+            responseFormat,
+        ));
+
+        expect(chunks[1].choices[0].delta).toEqual({});
+    });
+});
@@ -0,0 +1,68 @@
+import {Ajv} from "ajv";
+import * as OpenAI from "../types/openai.js";
+import {getLogger} from "../utils/logger.js";
+import chalk from "chalk";
+
+const logger = getLogger("STRUCTURED-OUTPUT", chalk.yellow);
+
+/**
+ * Validates content against the original schema of a strict json_schema response format.
+ * Gemini only receives a converted subset of the schema, so its output can still violate it.
+ * Returns the reason the content does not conform, undefined when it does or nothing is enforced.
+ */
+export const validateStructuredOutput = (
+    content: string,
+    responseFormat: OpenAI.ResponseFormat | undefined,
+): string | undefined => {
+    if (responseFormat?.type !== "json_schema" || !responseFormat.json_schema.strict || !responseFormat.json_schema.schema) {
+        return undefined;
+    }
+
+    // A new instance per request, Ajv caches every compiled schema for its lifetime
+    const ajv = new Ajv({strict: false, allErrors: true});
+    let validate;
+    try {
+        validate = ajv.compile(responseFormat.json_schema.schema);
+    } catch (error) {
+        logger.warn(`Skipping validation, schema ${responseFormat.json_schema.name} does not compile`, error);
+        return undefined;
+    }
+
+    let value: unknown;
+    try {
+        value = JSON.parse(content);
+    } catch {
+        return `Response is not valid JSON for schema ${responseFormat.json_schema.name}`;
+    }
+
+    if (!validate(value)) {
+        return `Response does not match schema ${responseFormat.json_schema.name}: ${ajv.errorsText(validate.errors)}`;
+    }
+    return undefined;
+};
+
+/**
+ * Passes a chat completion stream through and validates the streamed content once it stops.
+ * The content has already been sent by then, so a violation is reported as a refusal on the final chunk.
+ */
+export async function* enforceStructuredOutput(
+    stream: AsyncIterable<OpenAI.StreamChunk>,
+    responseFormat: OpenAI.ResponseFormat | undefined,
+): AsyncGenerator<OpenAI.StreamChunk> {
+    const contents = new Map<number, string>();
+    for await (const chunk of stream) {
+        for (const choice of chunk.choices) {
+            const content = (contents.get(choice.index) ?? "") + (choice.delta.content ?? "");
+            contents.set(choice.index, content);
+
+            // Output cut off by length or content filters is reported through its finish reason instead
+            if (choice.finish_reason === "stop") {
+                const violation = validateStructuredOutput(content, responseFormat);
+                if (violation) {
+                    choice.delta.refusal = violation;
+                }
+            }
+        }
+        yield chunk;
+    }
+}
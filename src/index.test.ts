@@ -0,0 +1,70 @@
+import {describe, it, expect, beforeEach, afterEach} from "vitest";
+import {execFile} from "child_process";
+import {promises as fs, existsSync} from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let home: string;
+
+/**
+ * Runs the CLI with a temporary home, killed when it doesn't exit on its own
+ * @returns {Promise<number | string>} Exit code, or the signal that killed the CLI
+ */
+const run = (...args: string[]): Promise<number | string> => new Promise((resolve) => {
+    execFile(process.execPath, ["--import", "tsx", "src/index.ts", ...args], {env: {...process.env, HOME: home}, timeout: 20000}, (error) => {
+        resolve(error ? error.signal ?? error.code ?? 1 : 0);
+    });
+});
+
+const writeJson = async (file: string, content: unknown) => {
+    await fs.mkdir(path.dirname(file), {recursive: true});
+    await fs.writeFile(file, JSON.stringify(content));
+};
+
+const readJson = async (file: string): Promise<unknown> => JSON.parse(await fs.readFile(file, "utf-8"));
+
+beforeEach(async () => {
+    home = await fs.mkdtemp(path.join(os.tmpdir(), "gemini-cli-proxy-"));
+    await writeJson(path.join(home, ".gemini", "accounts.json"), {active: "work@example.com", old: ["home@example.com"]});
+    await writeJson(path.join(home, ".gemini", "oauth_creds.json"), {refresh_token: "work"});
+    await writeJson(path.join(home, ".gemini", "account_creds", "home@example.com.json"), {refresh_token: "home"});
+});
+
+afterEach(async () => {
+    await fs.rm(home, {recursive: true, force: true});
+});
+
+describe("account commands", () => {
+    it("should exit after listing the accounts without opening the signature cache", async () => {
+        expect(await run("accounts", "list")).toBe(0);
+        expect(existsSync(path.join(home, ".gemini", "signature-cache.db"))).toBe(false);
+    }, 30000);
+
+    it("should exit after logging out", async () => {
+        expect(await run("logout")).toBe(0);
+        expect(await readJson(path.join(home, ".gemini", "accounts.json"))).toEqual({active: null, old: ["home@example.com", "work@example.com"]});
+    }, 30000);
+
+    it("should switch to a known account and keep the credentials of the active one", async () => {
+        expect(await run("accounts", "use", "home@example.com")).toBe(0);
+        expect(await readJson(path.join(home, ".gemini", "accounts.json"))).toEqual({active: "home@example.com", old: ["work@example.com"]});
+        expect(await readJson(path.join(home, ".gemini", "oauth_creds.json"))).toEqual({refresh_token: "home"});
+        expect(await readJson(path.join(home, ".gemini", "account_creds", "work@example.com.json"))).toEqual({refresh_token: "work"});
+    }, 30000);
+
+    it("should refuse accounts that aren't known, even with a credential file at their path", async () => {
+        await writeJson(path.join(home, "evil.json"), {refresh_token: "evil"});
+
+        expect(await run("accounts", "use", "unknown@example.com")).toBe(1);
+        expect(await run("accounts", "use", "../../evil")).toBe(1);
+        expect(await readJson(path.join(home, ".gemini", "accounts.json"))).toEqual({active: "work@example.com", old: ["home@example.com"]});
+        expect(await readJson(path.join(home, ".gemini", "oauth_creds.json"))).toEqual({refresh_token: "work"});
+    }, 30000);
+});
+
+describe("serve command", () => {
+    it("should reject invalid numeric options before starting the server", async () => {
+        expect(await run("--heartbeat-interval", "abc")).toBe(1);
+        expect(await run("--retry-max-attempts", "0")).toBe(1);
+    }, 30000);
+});
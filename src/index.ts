@@ -2,43 +2,117 @@
 import express from "express";
 import {Command} from "@commander-js/extra-typings";
 
-import {setupAuthentication} from "./auth/auth.js";
-import {GeminiApiClient} from "./gemini/client.js";
-import {createOpenAIRouter} from "./routes/openai.js";
-import {createAnthropicRouter} from "./routes/anthropic.js";
+import {login, logout, setupAccounts, useGoogleAccount} from "./auth/auth.js";
 import {
+    AUTO_SWITCH_NOTICE,
+    DEFAULT_ACCOUNT_ROTATION,
+    DEFAULT_COOLDOWN_MINUTES,
+    DEFAULT_HEARTBEAT_INTERVAL_SECONDS,
     DEFAULT_PORT,
+    DEFAULT_REQUEST_TIMEOUT_MS,
+    DEFAULT_RETRY_INITIAL_DELAY_MS,
+    DEFAULT_RETRY_JITTER,
+    DEFAULT_RETRY_MAX_ATTEMPTS,
+    DEFAULT_RETRY_MAX_DELAY_MS,
     DISABLE_AUTO_MODEL_SWITCH,
     DISABLE_BROWSER_AUTH,
-    DISABLE_GOOGLE_SEARCH
+    DISABLE_GOOGLE_SEARCH,
+    ENABLE_URL_CONTEXT,
+    PROBE_AFTER_COOLDOWN,
+    RETRYABLE_STATUS_CODES,
+    STREAM_FUNCTION_CALL_ARGUMENTS
 } from "./utils/constant.js";
 import {getLogger, setLogLevel} from "./utils/logger.js";
+import {getCancelledRequestCount} from "./utils/cancellation.js";
+import {modelRegistry} from "./gemini/model-registry.js";
+import {AutoModelSwitchingHelper, parseFallbackChain} from "./gemini/auto-model-switching.js";
+import {parseStatusCodes} from "./gemini/retry.js";
+import {AccountPool, parseAccount, parseAccountRotation} from "./gemini/account-pool.js";
+import {parseNumberOption} from "./utils/cli.js";
+import {getAccountCredentialPath, getCachedCredentialPath} from "./utils/paths.js";
+import {getCachedGoogleAccounts} from "./utils/user_account.js";
+import {existsSync} from "node:fs";
 import chalk from "chalk";
 
 const program = new Command()
+    .name("gemini-cli-proxy")
+    .option("-l, --log-level <level>", "Log level: error, warn, info, debug", "info")
+    // Set log level before anything else
+    .hook("preAction", (command) => setLogLevel(command.opts().logLevel));
+
+const serveCommand = program.command("serve", {isDefault: true})
+    .description("Starts the proxy server")
     .option("-p, --port <port>", "Server port", DEFAULT_PORT)
     .option("-g --google-cloud-project <googleCloudProject>", process.env.GOOGLE_CLOUD_PROJECT)
     .option("--disable-browser-auth", "Disables browser auth flow and uses code based auth", DISABLE_BROWSER_AUTH)
+    .option("--account <credentials>", "Credential file of an account of the pool and its optional project, e.g. ~/.gemini/work_creds.json=my-project (repeatable)", parseAccount)
+    .option("--account-rotation <rotation>", "How requests are spread over the accounts: round-robin, failover", parseAccountRotation, DEFAULT_ACCOUNT_ROTATION)
     .option("--disable-google-search", "Disables native Google Search tool", DISABLE_GOOGLE_SEARCH)
+    .option("--enable-url-context", "Enables native URL context tool", ENABLE_URL_CONTEXT)
+    .option("--stream-function-call-arguments", "Streams function call arguments as they are generated, on models that support it", STREAM_FUNCTION_CALL_ARGUMENTS)
+    .option("--model-config <path>", "JSON file with the model catalog, replaces the built-in models and aliases")
     .option("--disable-auto-model-switch", "Disables auto model switching in case of rate limiting", DISABLE_AUTO_MODEL_SWITCH)
-    .option("-l, --log-level <level>", "Log level: error, warn, info, debug", "info")
-    .parse(process.argv);
-
-const opts = program.opts();
+    .option("--fallback <chain>", "Fallback chain of a model, e.g. gemini-2.5-pro=gemini-2.5-flash,gemini-2.5-flash-lite (repeatable)", parseFallbackChain)
+    .option("--cooldown-minutes <minutes>", "Cooldown of a rate limited model when upstream does not say when to retry", parseNumberOption(), DEFAULT_COOLDOWN_MINUTES)
+    .option("--probe-after-cooldown", "Probes a model with a single request after its cooldown before switching all requests back", PROBE_AFTER_COOLDOWN)
+    .option("--retry-max-attempts <attempts>", "Attempts of a request failing with a transient error, 1 disables retries", parseNumberOption({min: 1, integer: true}), DEFAULT_RETRY_MAX_ATTEMPTS)
+    .option("--retry-initial-delay <ms>", "Delay before the first retry, doubled for every further retry", parseNumberOption(), DEFAULT_RETRY_INITIAL_DELAY_MS)
+    .option("--retry-max-delay <ms>", "Maximum delay between retries", parseNumberOption(), DEFAULT_RETRY_MAX_DELAY_MS)
+    .option("--retry-jitter <ratio>", "Fraction of the retry delay that is randomized", parseNumberOption({max: 1}), DEFAULT_RETRY_JITTER)
+    .option("--retry-status-codes <codes>", "Upstream status codes that are retried", parseStatusCodes, [...RETRYABLE_STATUS_CODES])
+    .option("--request-timeout <ms>", "Time Gemini has to start answering before the request is aborted", parseNumberOption({min: 1}), DEFAULT_REQUEST_TIMEOUT_MS)
+    .option("--auto-switch-notice", "Reports a model switch in the response itself, as an SSE comment on streams and a content prefix otherwise", AUTO_SWITCH_NOTICE)
+    .option("--heartbeat-interval <seconds>", "Sends a heartbeat on streams without a chunk for this long, 0 disables heartbeats", parseNumberOption(), DEFAULT_HEARTBEAT_INTERVAL_SECONDS);
 
-// Set log level before anything else
-setLogLevel(opts.logLevel ?? "info");
-
-export async function startServer() {
+export async function startServer(opts: ReturnType<typeof serveCommand.opts>) {
     const logger = getLogger("SERVER", chalk.green);
     logger.info("starting server...");
 
     try {
-        const authClient = await setupAuthentication(opts.disableBrowserAuth ?? false);
+        // The server modules open the signature cache, whose cleanup timer would keep the account commands running
+        const [{GeminiApiClient}, {createOpenAIRouter}, {createAnthropicRouter}, {createGeminiRouter}] = await Promise.all([
+            import("./gemini/client.js"),
+            import("./routes/openai.js"),
+            import("./routes/anthropic.js"),
+            import("./routes/gemini.js"),
+        ]);
+
+        if (opts.modelConfig) {
+            modelRegistry.load(opts.modelConfig);
+            logger.info(`loaded model catalog from ${opts.modelConfig}`);
+        }
+        AutoModelSwitchingHelper.getInstance().configure({
+            chains: opts.fallback ?? {},
+            cooldownMinutes: opts.cooldownMinutes,
+            probe: opts.probeAfterCooldown,
+        });
+
+        const accounts = await setupAccounts(
+            opts.disableBrowserAuth ?? false,
+            opts.account ?? [{credentialPath: getCachedCredentialPath()}]
+        );
+        const accountPool = new AccountPool(accounts, opts.accountRotation, opts.cooldownMinutes * 60 * 1000);
+        if (accounts.length > 1) {
+            logger.info(`using ${accounts.length} accounts with ${opts.accountRotation} rotation`);
+        }
         const geminiClient = new GeminiApiClient(
-            authClient,
+            accountPool,
             opts.googleCloudProject ?? process.env.GOOGLE_CLOUD_PROJECT,
-            opts.disableAutoModelSwitch
+            opts.disableAutoModelSwitch,
+            {
+                googleSearch: !opts.disableGoogleSearch,
+                urlContext: opts.enableUrlContext,
+            },
+            opts.streamFunctionCallArguments,
+            opts.autoSwitchNotice,
+            {
+                maxAttempts: opts.retryMaxAttempts,
+                initialDelayMs: opts.retryInitialDelay,
+                maxDelayMs: opts.retryMaxDelay,
+                jitter: opts.retryJitter,
+                retryableStatusCodes: opts.retryStatusCodes,
+                timeoutMs: opts.requestTimeout,
+            }
         );
 
         const app = express();
@@ -68,24 +142,30 @@ export async function startServer() {
             res.type("text/plain").send(
                 "Available endpoints:\n" +
                 `* OpenAI compatible endpoint: http://localhost:${opts.port}/openai\n` +
-                `* Anthropic compatible endpoint: http://localhost:${opts.port}/anthropic`
+                `* Anthropic compatible endpoint: http://localhost:${opts.port}/anthropic\n` +
+                `* Gemini compatible endpoint: http://localhost:${opts.port}/gemini`
             );
         });
 
+        const heartbeatIntervalMs = opts.heartbeatInterval * 1000;
         app.get("/health", (_req, res) => {
-            res.status(200).json({status: "ok"});
+            res.status(200).json({status: "ok", cancelledRequests: getCancelledRequestCount()});
         });
-        const openAIRouter = createOpenAIRouter(geminiClient);
+        const openAIRouter = createOpenAIRouter(geminiClient, heartbeatIntervalMs);
         app.use("/openai", openAIRouter);
 
-        const anthropicRouter = createAnthropicRouter(geminiClient);
+        const anthropicRouter = createAnthropicRouter(geminiClient, heartbeatIntervalMs);
         app.use("/anthropic", anthropicRouter);
 
+        const geminiRouter = createGeminiRouter(geminiClient);
+        app.use("/gemini", geminiRouter);
+
         // 6. Start server
         const server = app.listen(opts.port, () => {
             logger.info("server started");
             logger.info(`OpenAI compatible endpoint: http://localhost:${opts.port}/openai`);
             logger.info(`Anthropic compatible endpoint: http://localhost:${opts.port}/anthropic`);
+            logger.info(`Gemini compatible endpoint: http://localhost:${opts.port}/gemini`);
             logger.info("press Ctrl+C to stop the server");
         });
 
@@ -115,4 +195,63 @@ export async function startServer() {
     }
 }
 
-startServer();
+serveCommand.action(startServer);
+
+const cliLogger = getLogger("CLI", chalk.green);
+
+/**
+ * Wraps the action of an account command, errors are logged and exit the process
+ */
+const accountAction = <A extends unknown[]>(action: (...args: A) => Promise<void>) => async (...args: A) => {
+    try {
+        await action(...args);
+    } catch (err) {
+        cliLogger.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+    }
+};
+
+program.command("login")
+    .description("Logs in with a Google account and makes it the active account")
+    .option("--disable-browser-auth", "Disables browser auth flow and uses code based auth", DISABLE_BROWSER_AUTH)
+    .action(accountAction(async (options) => {
+        const email = await login(options.disableBrowserAuth);
+        cliLogger.info(`logged in as ${chalk.bold.underline(email)}, restart the server to use the account`);
+    }));
+
+program.command("logout")
+    .description("Logs out the active account and removes its credentials")
+    .action(accountAction(async () => {
+        const email = await logout();
+        cliLogger.info(email ? `logged out ${chalk.bold.underline(email)}` : "no account is logged in");
+    }));
+
+const accountsCommand = program.command("accounts")
+    .description("Manages the Google accounts logged in with the login command");
+
+accountsCommand.command("list")
+    .description("Lists the accounts, the active one is marked with *")
+    .action(accountAction(async () => {
+        const {active, old} = await getCachedGoogleAccounts();
+        if (!active && old.length === 0) {
+            cliLogger.info("no accounts, log in with gemini-cli-proxy login");
+            return;
+        }
+        if (active) {
+            console.log(`* ${active}`);
+        }
+        for (const email of old) {
+            // Accounts used before the login command kept credentials, or logged out, can't be switched to
+            console.log(`  ${email}${existsSync(getAccountCredentialPath(email)) ? "" : " (logged out)"}`);
+        }
+    }));
+
+accountsCommand.command("use")
+    .description("Makes a logged in account the active account")
+    .argument("<email>", "Email of the account")
+    .action(accountAction(async (email) => {
+        await useGoogleAccount(email);
+        cliLogger.info(`switched to ${chalk.bold.underline(email)}, restart the server to use the account`);
+    }));
+
+await program.parseAsync(process.argv);
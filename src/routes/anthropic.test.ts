@@ -0,0 +1,180 @@
+import {describe, it, expect, vi, afterEach} from "vitest";
+import {createAnthropicRouter} from "./anthropic.js";
+import {post, serveRouter, stopRouter} from "./test-server.js";
+import type {GeminiApiClient} from "../gemini/client.js";
+import {mapAnthropicMessagesRequestToGemini} from "../gemini/anthropic-mapper.js";
+import {estimateTokenCount} from "../gemini/mapper.js";
+import {GeminiApiError} from "../gemini/errors.js";
+import * as Anthropic from "../types/anthropic.js";
+import * as OpenAI from "../types/openai.js";
+
+/**
+ * Serves the Anthropic router with a stubbed Gemini client
+ */
+const startRouter = (geminiClient: Partial<GeminiApiClient>, heartbeatIntervalMs = 0) =>
+    serveRouter("/anthropic", createAnthropicRouter(geminiClient as GeminiApiClient, heartbeatIntervalMs));
+
+const countTokensRequest: Anthropic.CountTokensRequest = {
+    model: "claude-sonnet-4",
+    messages: [{role: "user", content: "What is the weather in Paris?"}],
+    tools: [{
+        name: "get_weather",
+        description: "Gets the current weather of a city",
+        input_schema: {type: "object", properties: {city: {type: "string", description: "Name of the city"}}, required: ["city"]},
+    }],
+};
+
+const messagesRequest: Anthropic.MessagesRequest = {
+    model: "claude-sonnet-4",
+    max_tokens: 1024,
+    stream: true,
+    messages: [{role: "user", content: "Hi"}],
+};
+
+const textChunk = (content: string, finishReason: string | null = null): OpenAI.StreamChunk => ({
+    id: "chatcmpl-1",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: "gemini-2.5-flash-lite",
+    choices: [{index: 0, delta: {content}, finish_reason: finishReason, logprobs: null}],
+});
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Stream failing with the given error before its first chunk
+ */
+const failAfter = (ms: number, error: Error): AsyncIterable<OpenAI.StreamChunk> => ({
+    [Symbol.asyncIterator]: () => ({
+        next: async () => {
+            await delay(ms);
+            throw error;
+        },
+    }),
+});
+
+afterEach(stopRouter);
+
+describe("POST /v1/messages/count_tokens", () => {
+    it("should answer with the count of Code Assist", async () => {
+        const countTokens = vi.fn(async () => 321);
+        const url = await startRouter({countTokens});
+
+        const response = await post(`${url}/v1/messages/count_tokens`, countTokensRequest);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({input_tokens: 321});
+        expect(countTokens).toHaveBeenCalledWith(expect.objectContaining({request: expect.objectContaining({tools: expect.any(Array)})}));
+    });
+
+    it("should fall back to the local estimate including the tools when counting fails", async () => {
+        const url = await startRouter({
+            countTokens: async () => {
+                throw new Error("countTokens unavailable");
+            },
+        });
+
+        const response = await post(`${url}/v1/messages/count_tokens`, countTokensRequest);
+
+        const geminiRequest = mapAnthropicMessagesRequestToGemini(countTokensRequest);
+        const estimate = estimateTokenCount(geminiRequest.request);
+        expect(await response.json()).toEqual({input_tokens: estimate});
+        expect(estimate).toBeGreaterThan(estimateTokenCount({...geminiRequest.request, tools: undefined}));
+    });
+
+    it("should reject a request without messages", async () => {
+        const url = await startRouter({});
+
+        const response = await post(`${url}/v1/messages/count_tokens`, {model: "claude-sonnet-4", messages: []});
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({type: "error", error: {type: "invalid_request_error"}});
+    });
+});
+
+describe("POST /v1/messages", () => {
+    const NOTIFICATION = "<429> You are downgraded from gemini-2.5-flash to gemini-2.5-flash-lite because of rate limits";
+
+    it("should report an auto switch in headers and, with the notice, as an SSE comment", async () => {
+        const url = await startRouter({
+            autoSwitchNotice: true,
+            async* streamContent() {
+                yield {...textChunk("Hello"), _autoSwitchNotification: NOTIFICATION};
+                yield textChunk("", "stop");
+            },
+        });
+
+        const response = await post(`${url}/v1/messages`, messagesRequest);
+        const text = await response.text();
+
+        expect(response.headers.get("x-gemini-proxy-model")).toBe("gemini-2.5-flash-lite");
+        expect(response.headers.get("x-gemini-proxy-model-switch")).toBe(NOTIFICATION);
+        expect(text.startsWith(`: [gemini-cli-proxy] ${NOTIFICATION}\n\nevent: message_start\n`)).toBe(true);
+        expect(text).toContain(JSON.stringify({type: "text_delta", text: "Hello"}));
+    });
+
+    it("should send heartbeats while upstream is silent before its first chunk", async () => {
+        const url = await startRouter({
+            async* streamContent() {
+                await delay(60);
+                yield textChunk("Hel");
+                await delay(60);
+                yield textChunk("lo", "stop");
+            },
+        }, 20);
+
+        const response = await post(`${url}/v1/messages`, messagesRequest);
+        const events = (await response.text()).split("\n\n").filter(Boolean).map((frame) => frame.split("\n")[0]);
+
+        // The heartbeat sent the headers before the first chunk could name the model
+        expect(response.headers.get("x-gemini-proxy-model")).toBeNull();
+        expect(events[0]).toBe("event: ping");
+        expect(events).toContain("event: message_start");
+        expect(events[events.length - 1]).toBe("event: message_stop");
+    });
+
+    it("should end the stream with an error event when upstream fails after a heartbeat", async () => {
+        const url = await startRouter({
+            async* streamContent() {
+                yield* failAfter(60, new GeminiApiError("Resource exhausted", 429, undefined, 30000));
+            },
+        }, 20);
+
+        const response = await post(`${url}/v1/messages`, messagesRequest);
+        const frames = (await response.text()).split("\n\n").filter(Boolean);
+
+        expect(response.status).toBe(200);
+        expect(frames[0]).toBe(`event: ping\ndata: ${JSON.stringify({type: "ping"})}`);
+        expect(frames[frames.length - 1]).toBe(`event: error\ndata: ${JSON.stringify({type: "error", error: {type: "rate_limit_error", message: "Resource exhausted"}})}`);
+    });
+
+    it("should end a failing stream with an error event", async () => {
+        const url = await startRouter({
+            async* streamContent() {
+                yield textChunk("Hel");
+                yield* failAfter(0, new Error("terminated"));
+            },
+        });
+
+        const response = await post(`${url}/v1/messages`, messagesRequest);
+        const frames = (await response.text()).split("\n\n").filter(Boolean);
+
+        expect(response.status).toBe(200);
+        expect(frames[frames.length - 1]).toBe(`event: error\ndata: ${JSON.stringify({type: "error", error: {type: "api_error", message: "terminated"}})}`);
+        expect(frames.some((frame) => frame.startsWith("event: message_stop"))).toBe(false);
+    });
+
+    it("should keep the upstream status of errors before the stream started", async () => {
+        const url = await startRouter({
+            async* streamContent() {
+                yield* failAfter(0, new GeminiApiError("The model is overloaded.", 503));
+            },
+        });
+
+        const response = await post(`${url}/v1/messages`, messagesRequest);
+
+        expect(response.status).toBe(503);
+        expect(response.headers.get("content-type")).toContain("application/json");
+        expect(await response.json()).toEqual({type: "error", error: {type: "overloaded_error", message: "The model is overloaded."}});
+    });
+});
@@ -1,20 +1,54 @@
 import express from "express";
 import {GeminiApiClient} from "../gemini/client.js";
+import {toAnthropicError} from "../gemini/errors.js";
 import * as Anthropic from "../types/anthropic.js";
-import {mapAnthropicMessagesRequestToGemini, mapGeminiResponseToAnthropic} from "../gemini/anthropic-mapper.js";
-import * as Gemini from "../types/gemini.js";
+import {
+    mapAnthropicMessagesRequestToGemini,
+    mapGeminiResponseToAnthropic,
+    mapOpenAIStreamToAnthropicEvents
+} from "../gemini/anthropic-mapper.js";
+import {estimateTokenCount} from "../gemini/mapper.js";
+import {modelRegistry} from "../gemini/model-registry.js";
 import {getLogger} from "../utils/logger.js";
+import {HEARTBEAT, withHeartbeats} from "../utils/stream.js";
+import {DEFAULT_HEARTBEAT_INTERVAL_SECONDS} from "../utils/constant.js";
+import {createRequestSignal, handleCancellation} from "../utils/cancellation.js";
+import {setModelHeaders, withModelHeaders} from "./auto-switch.js";
 import chalk from "chalk";
 
-export function createAnthropicRouter(geminiClient: GeminiApiClient): express.Router {
+/**
+ * Sends an error in Anthropic format. Once streaming started the status can no longer change,
+ * so the error is sent as an error event that ends the stream instead.
+ */
+const sendError = (res: express.Response, error: unknown): void => {
+    const {statusCode, headers, body} = toAnthropicError(error);
+    if (res.headersSent) {
+        if (!res.writableEnded) {
+            res.write(`event: error\ndata: ${JSON.stringify(body)}\n\n`);
+            res.end();
+        }
+        return;
+    }
+    // A stream that failed before its first event still has the event stream content type
+    res.status(statusCode).set(headers).type("json").json(body);
+};
+
+/**
+ * Anthropic compatible endpoints. Streams send a ping event as heartbeat after heartbeatIntervalMs
+ * without an event, 0 disables heartbeats.
+ */
+export function createAnthropicRouter(
+    geminiClient: GeminiApiClient,
+    heartbeatIntervalMs: number = DEFAULT_HEARTBEAT_INTERVAL_SECONDS * 1000,
+): express.Router {
     const router = express.Router();
     const logger = getLogger("SERVER-ANTHROPIC", chalk.green);
 
     router.get("/v1/models", (_req, res) => {
-        const data = Object.values(Gemini.Model).map((modelId) => ({
-            id: modelId,
+        const data = modelRegistry.list().map((model) => ({
+            id: model.id,
             type: "model",
-            display_name: modelId,
+            display_name: model.id,
             created_at: Math.floor(Date.now() / 1000),
             owned_by: "Google",
         }));
@@ -25,7 +59,41 @@ export function createAnthropicRouter(geminiClient: GeminiApiClient): express.Ro
         });
     });
 
+    router.post("/v1/messages/count_tokens", async (req, res) => {
+        try {
+            const body = req.body as Anthropic.CountTokensRequest;
+
+            if (!body.messages || body.messages.length === 0) {
+                const error: Anthropic.AnthropicError = {
+                    type: "error",
+                    error: {
+                        type: "invalid_request_error",
+                        message: "messages is required and cannot be empty"
+                    }
+                };
+                return res.status(400).json(error);
+            }
+
+            const geminiRequest = mapAnthropicMessagesRequestToGemini(body);
+
+            let inputTokens: number;
+            try {
+                inputTokens = await geminiClient.countTokens(geminiRequest);
+            } catch (countError) {
+                logger.warn("countTokens failed, falling back to local estimate", countError);
+                inputTokens = estimateTokenCount(geminiRequest.request);
+            }
+
+            const response: Anthropic.CountTokensResponse = {input_tokens: inputTokens};
+            res.json(response);
+        } catch (error) {
+            logger.error("count tokens error", error);
+            sendError(res, error);
+        }
+    });
+
     router.post("/v1/messages", async (req, res) => {
+        const signal = createRequestSignal(res);
         try {
             const body = req.body as Anthropic.MessagesRequest;
             
@@ -52,8 +120,7 @@ export function createAnthropicRouter(geminiClient: GeminiApiClient): express.Ro
                 return res.status(400).json(error);
             }
 
-            const projectId = await geminiClient.discoverProjectId();
-            const geminiRequest = mapAnthropicMessagesRequestToGemini(projectId, body);
+            const geminiRequest = mapAnthropicMessagesRequestToGemini(body);
             const requestId = `msg_${crypto.randomUUID()}`;
 
             if (body.stream) {
@@ -65,144 +132,50 @@ export function createAnthropicRouter(geminiClient: GeminiApiClient): express.Ro
                 res.setHeader("Access-Control-Allow-Origin", "*");
 
                 try {
-                    // Send message_start event
-                    const messageStart: Anthropic.MessageStartEvent = {
-                        type: "message_start",
-                        message: {
-                            id: requestId,
-                            type: "message",
-                            role: "assistant",
-                            content: [],
-                            model: body.model,
-                            stop_reason: "end_turn",
-                            usage: {
-                                input_tokens: 0,
-                                output_tokens: 0
-                            }
-                        }
-                    };
-                    res.write(`event: message_start\ndata: ${JSON.stringify(messageStart)}\n\n`);
-
-                    // Send content_block_start event
-                    const contentBlockStart: Anthropic.ContentBlockStartEvent = {
-                        type: "content_block_start",
-                        index: 0,
-                        content_block: {
-                            type: "text",
-                            text: ""
-                        }
-                    };
-                    res.write(`event: content_block_start\ndata: ${JSON.stringify(contentBlockStart)}\n\n`);
-
-                    const geminiStream = geminiClient.streamContent(geminiRequest);
-                    let totalContentLength = 0;
-                    
-                    for await (const chunk of geminiStream) {
-                        if (chunk.choices && chunk.choices[0]?.delta?.content) {
-                            const deltaText = chunk.choices[0].delta.content;
-                            totalContentLength += deltaText.length;
-                            
-                            const contentDelta: Anthropic.ContentBlockDeltaEvent = {
-                                type: "content_block_delta",
-                                index: 0,
-                                delta: {
-                                    type: "text_delta",
-                                    text: deltaText
-                                }
-                            };
-                            res.write(`event: content_block_delta\ndata: ${JSON.stringify(contentDelta)}\n\n`);
-                        }
+                    const geminiStream = withModelHeaders(res, body.model, geminiClient.streamContent(geminiRequest, false, signal), geminiClient.autoSwitchNotice);
+                    const events = mapOpenAIStreamToAnthropicEvents(
+                        geminiStream,
+                        requestId,
+                        estimateTokenCount(geminiRequest.request)
+                    );
+                    for await (const item of withHeartbeats(events, heartbeatIntervalMs)) {
+                        const event: Anthropic.MessageStreamEvent = item === HEARTBEAT ? {type: "ping"} : item;
+                        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
                     }
 
-                    // Send content_block_stop event
-                    const contentBlockStop: Anthropic.ContentBlockStopEvent = {
-                        type: "content_block_stop",
-                        index: 0
-                    };
-                    res.write(`event: content_block_stop\ndata: ${JSON.stringify(contentBlockStop)}\n\n`);
-
-                    // Send message_delta event (with final usage)
-                    const messageDelta: Anthropic.MessageDeltaEvent = {
-                        type: "message_delta",
-                        delta: {
-                            stop_reason: "end_turn"
-                        },
-                        usage: {
-                            output_tokens: Math.ceil(totalContentLength / 4) // Rough token estimate
-                        }
-                    };
-                    res.write(`event: message_delta\ndata: ${JSON.stringify(messageDelta)}\n\n`);
-
-                    // Send message_stop event
-                    const messageStop: Anthropic.MessageStopEvent = {
-                        type: "message_stop"
-                    };
-                    res.write(`event: message_stop\ndata: ${JSON.stringify(messageStop)}\n\n`);
-
                     res.end();
                 } catch (error) {
-                    logger.error("streaming error", error);
-                    if (!res.headersSent) {
-                        const errorMessage = error instanceof Error ? error.message : "Unknown stream error";
-                        const anthropicError: Anthropic.AnthropicError = {
-                            type: "error",
-                            error: {
-                                type: "api_error",
-                                message: errorMessage
-                            }
-                        };
-                        res.status(500).json(anthropicError);
-                    } else {
-                        res.end();
+                    if (handleCancellation(signal, logger)) {
+                        return;
                     }
+                    logger.error("streaming error", error);
+                    sendError(res, error);
                 }
             } else {
                 // Non-streaming response
                 try {
-                    const completion = await geminiClient.getCompletion(geminiRequest);
-                    
+                    const completion = await geminiClient.getCompletion(geminiRequest, false, signal);
+                    setModelHeaders(res, body.model, completion.model, completion._autoSwitchNotification);
+
                     const response = mapGeminiResponseToAnthropic(
                         completion,
-                        body.model,
+                        completion.model,
                         requestId
                     );
 
 
                     res.json(response);
                 } catch (completionError: unknown) {
-                    const errorMessage = completionError instanceof Error 
-                        ? completionError.message 
-                        : String(completionError);
-
+                    if (handleCancellation(signal, logger)) {
+                        return;
+                    }
                     logger.error("completion error", completionError);
-                    
-                    const error: Anthropic.AnthropicError = {
-                        type: "error",
-                        error: {
-                            type: "api_error",
-                            message: errorMessage
-                        }
-                    };
-                    
-                    res.status(500).json(error);
+                    sendError(res, completionError);
                 }
             }
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
             logger.error("completion error", error);
-            
-            if (!res.headersSent) {
-                const anthropicError: Anthropic.AnthropicError = {
-                    type: "error",
-                    error: {
-                        type: "api_error",
-                        message: errorMessage
-                    }
-                };
-                res.status(500).json(anthropicError);
-            } else {
-                res.end();
-            }
+            sendError(res, error);
         }
     });
 
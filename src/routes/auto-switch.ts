@@ -0,0 +1,48 @@
+import express from "express";
+import * as OpenAI from "../types/openai.js";
+
+/**
+ * Sets the x-gemini-proxy-* headers telling clients which model answered,
+ * and why when auto model switching replaced the requested one
+ */
+export const setModelHeaders = (
+    res: express.Response,
+    requestedModel: string,
+    model: string,
+    notification?: string,
+): void => {
+    // A heartbeat may have sent the headers before the first chunk
+    if (res.headersSent) {
+        return;
+    }
+    res.setHeader("x-gemini-proxy-requested-model", requestedModel);
+    res.setHeader("x-gemini-proxy-model", model);
+    if (notification) {
+        res.setHeader("x-gemini-proxy-model-switch", notification);
+    }
+};
+
+/**
+ * Sets the model headers from the first chunk of a stream, before its first write sends the headers.
+ * The switch notification is not part of the OpenAI chunk format, so it is removed from the chunk.
+ * With notice, the notification is also written as an SSE comment, which leaves the events untouched.
+ */
+export async function* withModelHeaders(
+    res: express.Response,
+    requestedModel: string,
+    stream: AsyncIterable<OpenAI.StreamChunk>,
+    notice: boolean = false,
+): AsyncGenerator<OpenAI.StreamChunk> {
+    let first = true;
+    for await (const chunk of stream) {
+        const {_autoSwitchNotification: notification, ...rest} = chunk;
+        if (first) {
+            first = false;
+            setModelHeaders(res, requestedModel, chunk.model, notification);
+            if (notice && notification) {
+                res.write(`: [gemini-cli-proxy] ${notification}\n\n`);
+            }
+        }
+        yield rest;
+    }
+}
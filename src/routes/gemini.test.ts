@@ -0,0 +1,113 @@
+import {describe, it, expect, afterEach} from "vitest";
+import {createGeminiRouter} from "./gemini.js";
+import {QUOTA_EXCEEDED, post, serveRouter, stopRouter} from "./test-server.js";
+import type {GeminiApiClient} from "../gemini/client.js";
+import {GeminiApiError} from "../gemini/errors.js";
+import * as Gemini from "../types/gemini.js";
+
+/**
+ * Serves the Gemini router with a stubbed Gemini client
+ */
+const startRouter = (geminiClient: Partial<GeminiApiClient>) => serveRouter("/gemini", createGeminiRouter(geminiClient as GeminiApiClient));
+
+const request: Gemini.ChatCompletionRequestBody = {contents: [{role: "user", parts: [{text: "hi"}]}]};
+
+const textResponse = (text: string): Gemini.Response => ({response: {candidates: [{content: {parts: [{text}]}}]}});
+
+/**
+ * Stream of raw Gemini responses that fails after the given responses
+ */
+const streamOf = (responses: Gemini.Response[], error?: Error) => async function* (): AsyncGenerator<Gemini.Response> {
+    yield* responses;
+    if (error) {
+        throw error;
+    }
+};
+
+afterEach(stopRouter);
+
+describe("POST /v1beta/models/{model}:generateContent", () => {
+    it("should answer with the unwrapped Gemini response", async () => {
+        const url = await startRouter({generateContent: async () => textResponse("Hello").response ?? {}});
+
+        const response = await post(`${url}/v1beta/models/gemini-2.5-flash:generateContent`, request);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual(textResponse("Hello").response);
+    });
+
+    it("should pass on Code Assist errors with their status and retry-after", async () => {
+        const url = await startRouter({
+            generateContent: async () => {
+                throw new GeminiApiError(`API call failed with status 429: ${QUOTA_EXCEEDED}`, 429, QUOTA_EXCEEDED, 30000);
+            },
+        });
+
+        const response = await post(`${url}/v1beta/models/gemini-2.5-flash:generateContent`, request);
+
+        expect(response.status).toBe(429);
+        expect(response.headers.get("retry-after")).toBe("30");
+        expect(await response.json()).toEqual(JSON.parse(QUOTA_EXCEEDED));
+    });
+
+    it("should reject unknown models", async () => {
+        const url = await startRouter({});
+
+        const response = await post(`${url}/v1beta/models/llama-3:generateContent`, request);
+
+        expect(response.status).toBe(404);
+        expect(await response.json()).toMatchObject({error: {code: 404, status: "NOT_FOUND"}});
+    });
+});
+
+describe("POST /v1beta/models/{model}:streamGenerateContent", () => {
+    it("should stream the responses as server-sent events with alt=sse", async () => {
+        const url = await startRouter({streamGenerateContent: streamOf([textResponse("Hel"), textResponse("lo")])});
+
+        const response = await post(`${url}/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse`, request);
+
+        expect(response.headers.get("content-type")).toContain("text/event-stream");
+        expect(await response.text()).toBe(
+            `data: ${JSON.stringify(textResponse("Hel").response)}\n\ndata: ${JSON.stringify(textResponse("lo").response)}\n\n`
+        );
+    });
+
+    it("should stream the responses as a JSON array without alt=sse", async () => {
+        const url = await startRouter({streamGenerateContent: streamOf([textResponse("Hel"), textResponse("lo")])});
+
+        const response = await post(`${url}/v1beta/models/gemini-2.5-flash:streamGenerateContent`, request);
+
+        expect(await response.json()).toEqual([textResponse("Hel").response, textResponse("lo").response]);
+    });
+
+    it("should keep the upstream status of errors before the stream started", async () => {
+        const url = await startRouter({
+            streamGenerateContent: streamOf([], new GeminiApiError(`Stream request failed: 429 ${QUOTA_EXCEEDED}`, 429, QUOTA_EXCEEDED)),
+        });
+
+        const response = await post(`${url}/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse`, request);
+
+        expect(response.status).toBe(429);
+        expect(response.headers.get("content-type")).toContain("application/json");
+        expect(await response.json()).toEqual(JSON.parse(QUOTA_EXCEEDED));
+    });
+
+    it("should end a failing event stream with an error event", async () => {
+        const url = await startRouter({streamGenerateContent: streamOf([textResponse("Hel")], new Error("terminated"))});
+
+        const response = await post(`${url}/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse`, request);
+
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe(
+            `data: ${JSON.stringify(textResponse("Hel").response)}\n\ndata: ${JSON.stringify({error: {code: 500, message: "terminated", status: "INTERNAL"}})}\n\n`
+        );
+    });
+
+    it("should end a failing JSON array with an error element", async () => {
+        const url = await startRouter({streamGenerateContent: streamOf([textResponse("Hel")], new Error("terminated"))});
+
+        const response = await post(`${url}/v1beta/models/gemini-2.5-flash:streamGenerateContent`, request);
+
+        expect(await response.json()).toEqual([textResponse("Hel").response, {error: {code: 500, message: "terminated", status: "INTERNAL"}}]);
+    });
+});
@@ -0,0 +1,102 @@
+import express from "express";
+import {GeminiApiClient} from "../gemini/client.js";
+import {toGeminiError} from "../gemini/errors.js";
+import * as Gemini from "../types/gemini.js";
+import {mapModelToGemini} from "../gemini/mapper.js";
+import {modelRegistry} from "../gemini/model-registry.js";
+import {getLogger} from "../utils/logger.js";
+import {createRequestSignal, handleCancellation} from "../utils/cancellation.js";
+import chalk from "chalk";
+
+/**
+ * Native Gemini API (v1beta) endpoints. Requests in public Gemini API shape are wrapped in the
+ * Code Assist {model, project, request} envelope and the response field is unwrapped on the way back.
+ */
+export function createGeminiRouter(geminiClient: GeminiApiClient): express.Router {
+    const router = express.Router();
+    const logger = getLogger("SERVER-GEMINI", chalk.green);
+
+    router.get("/v1beta/models", (_req, res) => {
+        const models = modelRegistry.list().map((model) => ({
+            name: `models/${model.id}`,
+            displayName: model.id,
+            inputTokenLimit: model.contextWindow,
+            outputTokenLimit: model.maxOutputTokens,
+            supportedGenerationMethods: ["generateContent", "streamGenerateContent", "countTokens"],
+            thinking: model.thinking,
+        }));
+
+        res.json({models});
+    });
+
+    // Express treats ":" as a parameter prefix, so "{model}:{method}" is matched as one segment
+    router.post("/v1beta/models/:modelMethod", async (req, res) => {
+        const [modelName, method] = req.params.modelMethod.split(":");
+        const body = req.body as Gemini.ChatCompletionRequestBody;
+        const signal = createRequestSignal(res);
+        const sse = req.query.alt === "sse";
+        // Without alt=sse the public API streams a JSON array of responses
+        let first = true;
+
+        try {
+            const geminiRequest: Gemini.ChatCompletionRequest = {
+                model: mapModelToGemini(modelName),
+                request: body,
+            };
+            logger.debug(`Gemini model: ${geminiRequest.model}, method: ${method}`);
+
+            if (method === "generateContent") {
+                res.json(await geminiClient.generateContent(geminiRequest, signal));
+            } else if (method === "streamGenerateContent") {
+                res.setHeader("Content-Type", sse ? "text/event-stream" : "application/json");
+                res.setHeader("Cache-Control", "no-cache");
+                res.setHeader("Access-Control-Allow-Origin", "*");
+
+                for await (const chunk of geminiClient.streamGenerateContent(geminiRequest, false, signal)) {
+                    const data = JSON.stringify(chunk.response ?? {});
+                    if (sse) {
+                        res.write(`data: ${data}\n\n`);
+                    } else {
+                        res.write(`${first ? "[" : ","}${data}`);
+                    }
+                    first = false;
+                }
+                if (!sse) {
+                    res.write(first ? "[]" : "]");
+                }
+                res.end();
+            } else if (method === "countTokens") {
+                // countTokens accepts either plain contents or a full generateContentRequest
+                const countTokensBody = req.body as {contents?: Gemini.ChatMessage[]; generateContentRequest?: Gemini.ChatCompletionRequestBody};
+                geminiRequest.request = countTokensBody.generateContentRequest ?? {contents: countTokensBody.contents ?? []};
+                const totalTokens = await geminiClient.countTokens(geminiRequest);
+                res.json({totalTokens});
+            } else {
+                res.status(404).json({
+                    error: {
+                        code: 404,
+                        message: `Method ${method} is not supported for models/${modelName}`,
+                        status: "NOT_FOUND",
+                    },
+                });
+            }
+        } catch (error) {
+            if (handleCancellation(signal, logger)) {
+                return;
+            }
+            logger.error(`${method} error`, error);
+
+            const {statusCode, headers, body} = toGeminiError(error);
+            if (!res.headersSent) {
+                // A stream that failed before its first chunk still has the event stream content type
+                res.status(statusCode).set(headers).type("json").json(body);
+            } else if (!res.writableEnded) {
+                // Once streaming started the status can no longer change, the error ends the stream instead
+                res.write(sse ? `data: ${JSON.stringify(body)}\n\n` : `${first ? "[" : ","}${JSON.stringify(body)}]`);
+                res.end();
+            }
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,103 @@
+import {describe, it, expect, afterEach} from "vitest";
+import {createOpenAIRouter} from "./openai.js";
+import {QUOTA_EXCEEDED, post, serveRouter, stopRouter} from "./test-server.js";
+import type {GeminiApiClient} from "../gemini/client.js";
+import {GeminiApiError} from "../gemini/errors.js";
+import * as OpenAI from "../types/openai.js";
+
+/**
+ * Serves the OpenAI router with a stubbed Gemini client
+ */
+const startRouter = (geminiClient: Partial<GeminiApiClient>) => serveRouter("/openai", createOpenAIRouter(geminiClient as GeminiApiClient, 0));
+
+const chatRequest: OpenAI.ChatCompletionRequest = {
+    model: "gemini-2.5-flash",
+    stream: true,
+    messages: [{role: "user", content: "Hi"}],
+};
+
+const textChunk = (content: string): OpenAI.StreamChunk => ({
+    id: "chatcmpl-1",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: "gemini-2.5-flash",
+    choices: [{index: 0, delta: {content}, finish_reason: null, logprobs: null}],
+});
+
+/**
+ * Stream of the given chunks that fails afterwards
+ */
+const failingAfter = (chunks: OpenAI.StreamChunk[], error: Error) => async function* (): AsyncGenerator<OpenAI.StreamChunk> {
+    yield* chunks;
+    throw error;
+};
+
+/**
+ * Data of the events of a server-sent event stream
+ */
+const dataOf = (text: string) => text.split("\n\n").filter(Boolean).map((frame) => frame.split("\n").find((line) => line.startsWith("data: "))?.slice(6));
+
+afterEach(stopRouter);
+
+describe("POST /v1/chat/completions", () => {
+    it("should keep the upstream status of errors before the stream started", async () => {
+        const url = await startRouter({
+            streamContent: failingAfter([], new GeminiApiError(`Stream request failed: 429 ${QUOTA_EXCEEDED}`, 429, QUOTA_EXCEEDED, 30000)),
+        });
+
+        const response = await post(`${url}/v1/chat/completions`, chatRequest);
+
+        expect(response.status).toBe(429);
+        expect(response.headers.get("content-type")).toContain("application/json");
+        expect(response.headers.get("retry-after")).toBe("30");
+        expect(await response.json()).toEqual({
+            error: {message: "Resource has been exhausted (e.g. check quota).", type: "requests", param: null, code: "rate_limit_exceeded"},
+        });
+    });
+
+    it("should end a failing stream with an error chunk instead of [DONE]", async () => {
+        const url = await startRouter({streamContent: failingAfter([textChunk("Hel")], new Error("terminated"))});
+
+        const response = await post(`${url}/v1/chat/completions`, chatRequest);
+        const data = dataOf(await response.text());
+
+        expect(response.status).toBe(200);
+        expect(data).toHaveLength(2);
+        expect(JSON.parse(data[0] ?? "")).toMatchObject({choices: [{delta: {content: "Hel"}}]});
+        expect(JSON.parse(data[1] ?? "")).toEqual({error: {message: "terminated", type: "server_error", param: null, code: null}});
+    });
+});
+
+describe("POST /v1/responses", () => {
+    it("should prefix the text of a non-streamed response with the auto switch notice", async () => {
+        const notification = "<429> You are downgraded from gemini-2.5-pro to gemini-2.5-flash because of rate limits";
+        const url = await startRouter({
+            autoSwitchNotice: true,
+            async* streamContent() {
+                yield {...textChunk("Hello"), _autoSwitchNotification: notification};
+            },
+        });
+
+        const response = await post(`${url}/v1/responses`, {model: "gemini-2.5-pro", input: "Hi"});
+        const body = await response.json() as OpenAI.ResponseObject;
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get("content-type")).toContain("application/json");
+        expect(response.headers.get("x-gemini-proxy-model-switch")).toBe(notification);
+        expect(body.output_text).toBe(`[gemini-cli-proxy] ${notification}\n\nHello`);
+        expect(body.output).toMatchObject([{type: "message", content: [{type: "output_text", text: body.output_text}]}]);
+    });
+
+    it("should end a failing stream with an error event", async () => {
+        const url = await startRouter({streamContent: failingAfter([textChunk("Hel")], new Error("terminated"))});
+
+        const response = await post(`${url}/v1/responses`, {model: "gemini-2.5-flash", input: "Hi", stream: true});
+        const text = await response.text();
+        const events = dataOf(text).map((data) => JSON.parse(data ?? "") as OpenAI.ResponseStreamEvent);
+        const error = events[events.length - 1];
+
+        expect(response.status).toBe(200);
+        expect(text).toContain("event: error\n");
+        expect(error).toEqual({type: "error", code: null, message: "terminated", param: null, sequence_number: events.length - 1});
+    });
+});
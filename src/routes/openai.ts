@@ -1,19 +1,87 @@
 import express from "express";
-import {GeminiApiClient} from "../gemini/client.js";
-import * as Gemini from "../types/gemini.js";
+import {GeminiApiClient, formatAutoSwitchNotice} from "../gemini/client.js";
+import {toOpenAIError} from "../gemini/errors.js";
+import {modelRegistry} from "../gemini/model-registry.js";
 import * as OpenAI from "../types/openai.js";
 import {mapOpenAIChatCompletionRequestToGemini} from "../gemini/openai-mapper.js";
+import {hasStructuredOutput} from "../gemini/mapper.js";
+import {
+    createResponseObject,
+    mapOpenAIResponsesRequestToChatCompletion,
+    mapOpenAIStreamToResponsesEvents,
+    mapResponsesInputToChatMessages
+} from "../gemini/openai-responses-mapper.js";
+import {responseStore} from "../gemini/response-store.js";
+import {enforceStructuredOutput, validateStructuredOutput} from "../gemini/structured-output.js";
+import {setModelHeaders, withModelHeaders} from "./auto-switch.js";
 import {getLogger} from "../utils/logger.js";
+import {HEARTBEAT, withHeartbeats} from "../utils/stream.js";
+import {DEFAULT_HEARTBEAT_INTERVAL_SECONDS} from "../utils/constant.js";
+import {createRequestSignal, handleCancellation} from "../utils/cancellation.js";
 import chalk from "chalk";
 
+/**
+ * Rejects a request with an invalid parameter
+ */
+const sendInvalidRequest = (res: express.Response, message: string, param: string) => {
+    const errorResponse: OpenAI.ErrorResponse = {error: {message, type: "invalid_request_error", param, code: null}};
+    return res.status(400).json(errorResponse);
+};
 
-export function createOpenAIRouter(geminiClient: GeminiApiClient): express.Router {
+/**
+ * Sends an error in OpenAI format. Once streaming started the status can no longer change,
+ * so the error is sent as the last chunk of the stream instead, a chat completion chunk by default.
+ */
+const sendError = (
+    res: express.Response,
+    error: unknown,
+    formatStreamError: (errorResponse: OpenAI.ErrorResponse) => string = (errorResponse) => `data: ${JSON.stringify(errorResponse)}\n\n`,
+): void => {
+    const {statusCode, headers, body} = toOpenAIError(error);
+    if (res.headersSent) {
+        if (!res.writableEnded) {
+            res.write(formatStreamError(body));
+            res.end();
+        }
+        return;
+    }
+    // A stream that failed before its first chunk still has the event stream content type
+    res.status(statusCode).set(headers).type("json").json(body);
+};
+
+/**
+ * Prepends the notice of a model switch to the text of a non-streamed response, like getCompletion
+ * does for chat completions. Responses answering with tool calls only have no text to carry it.
+ */
+const addAutoSwitchNotice = (response: OpenAI.ResponseObject, notification: string): void => {
+    const message = response.output.find((item) => item.type === "message");
+    const part = message?.content[0];
+    if (!part) {
+        return;
+    }
+    const notice = formatAutoSwitchNotice(notification);
+    part.text = notice + part.text;
+    for (const annotation of part.annotations) {
+        annotation.start_index += notice.length;
+        annotation.end_index += notice.length;
+    }
+    response.output_text = notice + (response.output_text ?? "");
+};
+
+/**
+ * OpenAI compatible endpoints. Streams send an SSE comment line as heartbeat after heartbeatIntervalMs
+ * without a chunk, 0 disables heartbeats.
+ */
+export function createOpenAIRouter(
+    geminiClient: GeminiApiClient,
+    heartbeatIntervalMs: number = DEFAULT_HEARTBEAT_INTERVAL_SECONDS * 1000,
+): express.Router {
     const router = express.Router();
     const logger = getLogger("SERVER-OPENAI", chalk.green);
 
     router.get("/v1/models", (_req, res) => {
-        const modelData = Object.values(Gemini.Model).map((modelId) => ({
-            id: modelId,
+        const modelData = modelRegistry.list().map((model) => ({
+            id: model.id,
             object: "model",
             created: Math.floor(Date.now() / 1000),
             owned_by: "Google",
@@ -26,17 +94,17 @@ export function createOpenAIRouter(geminiClient: GeminiApiClient): express.Route
     });
 
     router.post("/v1/chat/completions", async (req, res) => {
+        const signal = createRequestSignal(res);
         try {
             const body = req.body as OpenAI.ChatCompletionRequest;
             if (!body.messages.length) {
-                return res.status(400).json({error: "messages is a required field"});
+                return sendInvalidRequest(res, "messages is a required field", "messages");
             }
 
             // Debug logging (only shown with --log-level debug)
             logger.debug(`Model: ${body.model}, reasoning_effort: ${body.reasoning_effort}, reasoning: ${JSON.stringify(body.reasoning)}`);
 
-            const projectId = await geminiClient.discoverProjectId();
-            const geminiCompletionRequest = mapOpenAIChatCompletionRequestToGemini(projectId, body);
+            const geminiCompletionRequest = mapOpenAIChatCompletionRequestToGemini(body);
 
             logger.debug(`ThinkingConfig: ${JSON.stringify(geminiCompletionRequest.request.generationConfig?.thinkingConfig)}`);
             logger.debug(`Gemini model: ${geminiCompletionRequest.model}`);
@@ -50,42 +118,54 @@ export function createOpenAIRouter(geminiClient: GeminiApiClient): express.Route
 
                 try {
                     // Stream directly to response - no intermediate TransformStream
-                    const geminiStream = geminiClient.streamContent(geminiCompletionRequest);
-                    for await (const chunk of geminiStream) {
+                    const geminiStream = enforceStructuredOutput(
+                        withModelHeaders(res, body.model, geminiClient.streamContent(geminiCompletionRequest, false, signal), geminiClient.autoSwitchNotice),
+                        body.response_format
+                    );
+                    for await (const chunk of withHeartbeats(geminiStream, heartbeatIntervalMs)) {
+                        if (chunk === HEARTBEAT) {
+                            res.write(": heartbeat\n\n");
+                            continue;
+                        }
                         res.write(`data: ${JSON.stringify(chunk)}\n\n`);
                     }
                     res.write("data: [DONE]\n\n");
                     res.end();
                 } catch (error) {
-                    logger.error("stream error", error);
-                    if (!res.headersSent) {
-                        const errorMessage = error instanceof Error ? error.message : "Unknown stream error";
-                        res.status(500).json({error: errorMessage});
-                    } else {
-                        res.end();
+                    if (handleCancellation(signal, logger)) {
+                        return;
                     }
+                    logger.error("stream error", error);
+                    sendError(res, error);
                 }
             } else {
                 // Non-streaming response
                 try {
-                    const completion = await geminiClient.getCompletion(geminiCompletionRequest);
+                    const completion = await geminiClient.getCompletion(geminiCompletionRequest, false, signal);
+                    setModelHeaders(res, body.model, completion.model, completion._autoSwitchNotification);
 
                     const response: OpenAI.ChatCompletionResponse = {
                         id: `chatcmpl-${crypto.randomUUID()}`,
                         object: "chat.completion",
                         created: Math.floor(Date.now() / 1000),
-                        model: body.model,
-                        choices: [
-                            {
-                                index: 0,
+                        model: completion.model,
+                        choices: completion.choices.map((choice) => {
+                            const refusal = choice.finishReason === "stop"
+                                ? validateStructuredOutput(choice.content, body.response_format)
+                                : undefined;
+                            return {
+                                index: choice.index,
                                 message: {
                                     role: "assistant",
-                                    content: completion.content,
-                                    tool_calls: completion.tool_calls
+                                    // Like OpenAI refusals, output that violates a strict schema comes without content
+                                    content: refusal ? null : choice.content,
+                                    tool_calls: choice.tool_calls,
+                                    annotations: choice.annotations,
+                                    refusal
                                 },
-                                finish_reason: completion.tool_calls && completion.tool_calls.length > 0 ? "tool_calls" : "stop"
-                            }
-                        ]
+                                finish_reason: choice.finishReason
+                            };
+                        })
                     };
 
                     // Add usage information if available
@@ -95,24 +175,108 @@ export function createOpenAIRouter(geminiClient: GeminiApiClient): express.Route
                             completion_tokens: completion.usage.outputTokens,
                             total_tokens: completion.usage.inputTokens + completion.usage.outputTokens
                         };
+                        if (completion.usage.cachedTokens !== undefined) {
+                            response.usage.prompt_tokens_details = {cached_tokens: completion.usage.cachedTokens};
+                        }
+                        if (completion.usage.reasoningTokens !== undefined) {
+                            response.usage.completion_tokens_details = {reasoning_tokens: completion.usage.reasoningTokens};
+                        }
                     }
 
                     res.json(response);
                 } catch (completionError: unknown) {
-                    const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+                    if (handleCancellation(signal, logger)) {
+                        return;
+                    }
                     logger.error("completion error", completionError);
-                    res.status(500).json({error: errorMessage});
+                    sendError(res, completionError);
                 }
             }
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
             logger.error("completion error", error);
+            sendError(res, error);
+        }
+    });
 
-            if (!res.headersSent) {
-                res.status(500).json({error: errorMessage});
-            } else {
+    router.post("/v1/responses", async (req, res) => {
+        const signal = createRequestSignal(res);
+        // Sequence number of the error event that ends a failed stream
+        let sequenceNumber = 0;
+        try {
+            const body = req.body as OpenAI.ResponsesRequest;
+            if (body.input === undefined) {
+                return sendInvalidRequest(res, "input is a required field", "input");
+            }
+
+            let previousMessages: OpenAI.ChatMessage[] = [];
+            if (body.previous_response_id) {
+                const storedMessages = responseStore.get(body.previous_response_id);
+                if (!storedMessages) {
+                    return sendInvalidRequest(res, `Previous response with id '${body.previous_response_id}' not found.`, "previous_response_id");
+                }
+                previousMessages = storedMessages;
+            }
+
+            const conversation = [...previousMessages, ...mapResponsesInputToChatMessages(body.input)];
+            const chatRequest = mapOpenAIResponsesRequestToChatCompletion(body, conversation);
+
+            const geminiCompletionRequest = mapOpenAIChatCompletionRequestToGemini(chatRequest);
+            logger.debug(`Gemini model: ${geminiCompletionRequest.model}`);
+
+            if (body.stream) {
+                res.setHeader("Content-Type", "text/event-stream");
+                res.setHeader("Cache-Control", "no-cache");
+                res.setHeader("Connection", "keep-alive");
+                res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+                res.setHeader("Access-Control-Allow-Origin", "*");
+            }
+
+            // Only streams take the notice as an SSE comment, a write would send the headers of a JSON response
+            const geminiStream = withModelHeaders(
+                res,
+                body.model,
+                geminiClient.streamContent(geminiCompletionRequest, false, signal),
+                geminiClient.autoSwitchNotice && !!body.stream,
+            );
+            const events = mapOpenAIStreamToResponsesEvents(geminiStream, createResponseObject(body));
+            let response: OpenAI.ResponseObject | undefined;
+            for await (const event of withHeartbeats(events, body.stream ? heartbeatIntervalMs : 0)) {
+                if (event === HEARTBEAT) {
+                    res.write(": heartbeat\n\n");
+                    continue;
+                }
+                sequenceNumber = event.sequence_number + 1;
+                if (event.type === "response.completed" || event.type === "response.incomplete") {
+                    response = event.response;
+                }
+                if (body.stream) {
+                    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+                }
+            }
+
+            if (response && body.store !== false) {
+                responseStore.store(response.id, [...conversation, ...mapResponsesInputToChatMessages(response.output)]);
+            }
+
+            if (body.stream) {
                 res.end();
+            } else {
+                // withModelHeaders moved the switch notification of the first chunk to its header
+                const notification = res.getHeader("x-gemini-proxy-model-switch");
+                if (response && geminiClient.autoSwitchNotice && typeof notification === "string" && !hasStructuredOutput(geminiCompletionRequest.request)) {
+                    addAutoSwitchNotice(response, notification);
+                }
+                res.json(response);
+            }
+        } catch (error) {
+            if (handleCancellation(signal, logger)) {
+                return;
             }
+            logger.error("response error", error);
+            sendError(res, error, ({error: {message, code, param}}) => {
+                const event: OpenAI.ResponseStreamEvent = {type: "error", code, message, param, sequence_number: sequenceNumber};
+                return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+            });
         }
     });
 
@@ -0,0 +1,41 @@
+import express from "express";
+import http from "http";
+import type {AddressInfo} from "net";
+
+// Error body of a rate limited Code Assist request
+export const QUOTA_EXCEEDED = JSON.stringify({error: {code: 429, message: "Resource has been exhausted (e.g. check quota).", status: "RESOURCE_EXHAUSTED"}});
+
+let server: http.Server | undefined;
+
+/**
+ * Serves a router for a route test, stopped by stopRouter
+ * @returns {Promise<string>} Base URL of the router
+ */
+export const serveRouter = async (path: string, router: express.Router): Promise<string> => {
+    const app = express();
+    app.use(express.json());
+    app.use(path, router);
+    const started = app.listen(0, "127.0.0.1");
+    server = started;
+    await new Promise((resolve) => started.once("listening", resolve));
+    return `http://127.0.0.1:${(started.address() as AddressInfo).port}${path}`;
+};
+
+/**
+ * Stops the router of the test, including its streams still open
+ */
+export const stopRouter = async (): Promise<void> => {
+    const stopped = server;
+    server = undefined;
+    if (!stopped) {
+        return;
+    }
+    stopped.closeAllConnections();
+    await new Promise((resolve) => stopped.close(resolve));
+};
+
+export const post = (url: string, body: unknown) => fetch(url, {
+    method: "POST",
+    headers: {"Content-Type": "application/json"},
+    body: JSON.stringify(body),
+});
@@ -3,6 +3,15 @@ export type Role = "user" | "assistant";
 export type TextContent = {
     type: "text";
     text: string;
+    citations?: WebSearchCitation[];
+};
+
+export type WebSearchCitation = {
+    type: "web_search_result_location";
+    url: string;
+    title: string | null;
+    cited_text: string;
+    encrypted_index: string;
 };
 
 export type ImageContent = {
@@ -48,10 +57,23 @@ export type ToolResult = {
     is_error?: boolean;
 };
 
-export type MessageContent = TextContent | ImageContent | ToolUse | ToolResult;
+export type ThinkingContent = {
+    type: "thinking";
+    thinking: string;
+    signature?: string;
+};
+
+export type RedactedThinkingContent = {
+    type: "redacted_thinking";
+    data: string;
+};
+
+export type ThinkingConfig = {type: "enabled"; budget_tokens: number} | {type: "disabled"};
+
+export type MessageContent = TextContent | ImageContent | ToolUse | ToolResult | ThinkingContent | RedactedThinkingContent;
 
 // For messages in the request
-export type RequestContent = TextContent | ImageContent;
+export type RequestContent = TextContent | ImageContent | ToolUse | ToolResult | ThinkingContent | RedactedThinkingContent;
 
 export type MessagesRequest = {
     model: string;
@@ -65,11 +87,21 @@ export type MessagesRequest = {
     stream?: boolean;
     tools?: Tool[];
     tool_choice?: ToolChoice;
+    thinking?: ThinkingConfig;
+};
+
+export type StopReason = "end_turn" | "max_tokens" | "stop_sequence" | "tool_use" | "refusal";
+
+export type CountTokensRequest = Omit<MessagesRequest, "max_tokens" | "stream">;
+
+export type CountTokensResponse = {
+    input_tokens: number;
 };
 
 export type Usage = {
     input_tokens: number;
     output_tokens: number;
+    cache_read_input_tokens?: number;
 };
 
 export type MessagesResponse = {
@@ -78,13 +110,13 @@ export type MessagesResponse = {
     role: "assistant";
     content: MessageContent[];
     model: string;
-    stop_reason: "end_turn" | "max_tokens" | "stop_sequence" | "tool_use";
+    stop_reason: StopReason;
     stop_sequence?: string;
     usage: Usage;
 };
 
 export type StreamEvent = {
-    type: "message_start" | "content_block_start" | "content_block_delta" | "content_block_stop" | "message_delta" | "message_stop";
+    type: "message_start" | "content_block_start" | "content_block_delta" | "content_block_stop" | "message_delta" | "message_stop" | "ping";
 };
 
 export type MessageStartEvent = StreamEvent & {
@@ -102,9 +134,12 @@ export type ContentBlockDeltaEvent = StreamEvent & {
     type: "content_block_delta";
     index: number;
     delta: {
-        type: "text_delta" | "input_json_delta";
+        type: "text_delta" | "input_json_delta" | "thinking_delta" | "signature_delta" | "citations_delta";
         text?: string;
         partial_json?: string;
+        thinking?: string;
+        signature?: string;
+        citation?: WebSearchCitation;
     };
 };
 
@@ -116,11 +151,13 @@ export type ContentBlockStopEvent = StreamEvent & {
 export type MessageDeltaEvent = StreamEvent & {
     type: "message_delta";
     delta: {
-        stop_reason?: "end_turn" | "max_tokens" | "stop_sequence" | "tool_use";
+        stop_reason?: StopReason;
         stop_sequence?: string;
     };
     usage?: {
         output_tokens: number;
+        input_tokens?: number;
+        cache_read_input_tokens?: number;
     };
 };
 
@@ -128,6 +165,20 @@ export type MessageStopEvent = StreamEvent & {
     type: "message_stop";
 };
 
+// Keeps the connection alive, clients ignore it
+export type PingEvent = StreamEvent & {
+    type: "ping";
+};
+
+export type MessageStreamEvent =
+    | MessageStartEvent
+    | ContentBlockStartEvent
+    | ContentBlockDeltaEvent
+    | ContentBlockStopEvent
+    | MessageDeltaEvent
+    | MessageStopEvent
+    | PingEvent;
+
 export type AnthropicError = {
     type: "error";
     error: {
@@ -1,29 +1,42 @@
-export enum Model {
-    Gemini25Flash = "gemini-2.5-flash",
-    Gemini25FlashLite = "gemini-2.5-flash-lite",
-    Gemini25Pro = "gemini-2.5-pro",
-    Gemini3ProPreview = "gemini-3-pro-preview",
-}
-
 export type ChatCompletionRequestBody = {
     contents: ChatMessage[];
     systemInstruction?: SystemInstruction;
-    tools?: Array<{
-        functionDeclarations?: FunctionDeclaration[];
-    }>;
+    tools?: Tool[];
     toolConfig?: ToolConfig;
-    generationConfig?: {
-        temperature?: number;
-        thinkingConfig?: ThinkingConfig;
-    };
+    generationConfig?: GenerationConfig;
+};
+
+export type GenerationConfig = {
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    maxOutputTokens?: number;
+    stopSequences?: string[];
+    seed?: number;
+    presencePenalty?: number;
+    frequencyPenalty?: number;
+    candidateCount?: number;
+    // "application/json" for structured output, optionally constrained by responseSchema
+    responseMimeType?: string;
+    responseSchema?: object;
+    thinkingConfig?: ThinkingConfig;
 };
 
 export type ChatCompletionRequest = {
-    model: Model;
-    project: string;
+    // Id of a model of the model registry
+    model: string;
+    // Project of the account the request is sent with, filled in by GeminiApiClient
+    project?: string;
     request: ChatCompletionRequestBody;
 };
 
+export type Tool = {
+    functionDeclarations?: FunctionDeclaration[];
+    // Native tools, executed by Gemini itself
+    googleSearch?: object;
+    urlContext?: object;
+};
+
 export type SystemInstruction = {
     parts: TextPart[];
 };
@@ -31,6 +44,8 @@ export type ToolConfig = {
     functionCallingConfig: {
         mode: "AUTO" | "ANY" | "NONE";
         allowedFunctionNames?: string[];
+        // Streams function call arguments as partialArgs instead of a single args object
+        streamFunctionCallArguments?: boolean;
     };
 };
 
@@ -52,6 +67,24 @@ export type FunctionCall = {
     args: object;
 };
 
+// Function call of a streamed response. With streamed arguments the first part carries the name,
+// the following parts continue it with partialArgs until a part without willContinue ends it.
+export type StreamedFunctionCall = Partial<FunctionCall> & {
+    partialArgs?: PartialArg[];
+    willContinue?: boolean;
+};
+
+export type PartialArg = {
+    // Path of the value within the arguments, e.g. $.files[0].content
+    jsonPath: string;
+    stringValue?: string;
+    numberValue?: number;
+    boolValue?: boolean;
+    nullValue?: "NULL_VALUE";
+    // The string value continues in the next partial argument of the same path
+    willContinue?: boolean;
+};
+
 export type FunctionCallPart = {
     functionCall: FunctionCall;
     thought?: boolean;
@@ -93,23 +126,111 @@ export type ChatMessage = {
 
 // Gemini API response types
 export type Candidate = {
+    // Omitted for the first candidate
+    index?: number;
     content?: {
         parts?: Array<{text?: string}>;
     };
+    finishReason?: FinishReason;
+    // Details for some finish reasons, e.g. the call text of a MALFORMED_FUNCTION_CALL
+    finishMessage?: string;
+    safetyRatings?: SafetyRating[];
+    groundingMetadata?: GroundingMetadata;
+    urlContextMetadata?: UrlContextMetadata;
+};
+
+export type FinishReason =
+    | "FINISH_REASON_UNSPECIFIED"
+    | "STOP"
+    | "MAX_TOKENS"
+    | "SAFETY"
+    | "RECITATION"
+    | "LANGUAGE"
+    | "OTHER"
+    | "BLOCKLIST"
+    | "PROHIBITED_CONTENT"
+    | "SPII"
+    | "MALFORMED_FUNCTION_CALL"
+    | "IMAGE_SAFETY";
+
+export type SafetyRating = {
+    category: string;
+    probability: string;
+    blocked?: boolean;
+};
+
+export type BlockReason = "BLOCK_REASON_UNSPECIFIED" | "SAFETY" | "OTHER" | "BLOCKLIST" | "PROHIBITED_CONTENT" | "IMAGE_SAFETY";
+
+export type PromptFeedback = {
+    blockReason?: BlockReason;
+    blockReasonMessage?: string;
+    safetyRatings?: SafetyRating[];
+};
+
+export type GroundingChunk = {
+    web?: {
+        uri: string;
+        title?: string;
+    };
+};
+
+export type GroundingSupport = {
+    segment?: {
+        startIndex?: number;
+        endIndex?: number;
+        text?: string;
+    };
+    groundingChunkIndices?: number[];
+    confidenceScores?: number[];
+};
+
+export type GroundingMetadata = {
+    webSearchQueries?: string[];
+    groundingChunks?: GroundingChunk[];
+    groundingSupports?: GroundingSupport[];
+    searchEntryPoint?: {
+        renderedContent?: string;
+    };
+};
+
+export type UrlContextMetadata = {
+    urlMetadata?: Array<{
+        retrievedUrl?: string;
+        urlRetrievalStatus?: string;
+    }>;
 };
 
 export type UsageMetadata = {
     promptTokenCount?: number;
     candidatesTokenCount?: number;
+    // Thinking tokens are reported separately and not included in candidatesTokenCount
+    thoughtsTokenCount?: number;
+    cachedContentTokenCount?: number;
+    totalTokenCount?: number;
 };
 
+export type GenerateContentResponse = {
+    candidates?: Candidate[];
+    promptFeedback?: PromptFeedback;
+    usageMetadata?: UsageMetadata;
+};
+
+// Code Assist wraps the public Gemini API response in a response field
 export type Response = {
-    response?: {
-        candidates?: Candidate[];
-        usageMetadata?: UsageMetadata;
+    response?: GenerateContentResponse;
+};
+
+export type CountTokensRequest = {
+    request: {
+        model: string;
+        contents: ChatMessage[];
     };
 };
 
+export type CountTokensResponse = {
+    totalTokens?: number;
+};
+
 export type ProjectDiscoveryResponse = {
     cloudaicompanionProject?: string;
     allowedTiers: Array<{
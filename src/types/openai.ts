@@ -1,9 +1,19 @@
+import type {GroundingMetadata} from "./gemini.js";
+
 export type Role = "user" | "assistant" | "tool" | "system" | "developer";
 
 export type ChatCompletionRequest = {
     model: string;
     messages: ChatMessage[];
     temperature?: number;
+    top_p?: number;
+    // max_tokens is deprecated in favour of max_completion_tokens
+    max_tokens?: number;
+    max_completion_tokens?: number;
+    stop?: string | string[];
+    seed?: number;
+    presence_penalty?: number;
+    frequency_penalty?: number;
     stream?: boolean;
     reasoning_effort?: ReasoningEffort;
     reasoning?: {
@@ -11,8 +21,24 @@ export type ChatCompletionRequest = {
     }
     tools?: Tool[];
     tool_choice?: ToolChoice;
+    response_format?: ResponseFormat;
+    // Number of choices to generate
+    n?: number;
 };
 
+export type ResponseFormat =
+    | {type: "text"}
+    | {type: "json_object"}
+    | {
+        type: "json_schema";
+        json_schema: {
+            name: string;
+            description?: string;
+            schema?: object;
+            strict?: boolean | null;
+        };
+    };
+
 export enum ReasoningEffort {
     low = "low",
     medium = "medium",
@@ -30,7 +56,7 @@ export type FunctionDeclaration = {
     parameters: object;
 };
 
-export type ToolChoice = "none" | "auto" | {type: "function"; function: {name: string}};
+export type ToolChoice = "none" | "auto" | "required" | {type: "function"; function: {name: string}};
 
 export type ToolCall = {
     index: number;
@@ -42,6 +68,17 @@ export type ToolCall = {
     };
 };
 
+// Tool call of a stream delta, only the first delta of a call carries its id and name
+export type StreamToolCall = {
+    index: number;
+    id?: string;
+    type?: "function";
+    function: {
+        name?: string;
+        arguments: string;
+    };
+};
+
 export type ChatMessage = {
     role: Role;
     content: string | MessageContent[];
@@ -79,27 +116,59 @@ export interface ChatCompletionResponse {
 export type ChatCompletionChoice = {
     index: number;
     message: ChatCompletionMessage;
-    finish_reason: "stop" | "length" | "tool_calls" | "content_filter" | null;
+    finish_reason: FinishReason | null;
+};
+
+export type FinishReason = "stop" | "length" | "tool_calls" | "content_filter";
+
+export type ErrorResponse = {
+    error: {
+        message: string;
+        // requests is the type of rate limit errors
+        type: "invalid_request_error" | "server_error" | "requests";
+        param: string | null;
+        code: string | null;
+    };
 };
 
 export type ChatCompletionMessage = {
     role: "assistant";
     content: string | null;
     tool_calls?: ToolCall[];
+    annotations?: UrlCitationAnnotation[];
+    refusal?: string | null;
+};
+
+export type UrlCitationAnnotation = {
+    type: "url_citation";
+    url_citation: {
+        url: string;
+        title: string;
+        start_index: number;
+        end_index: number;
+    };
 };
 
 export type ChatCompletionUsage = {
     prompt_tokens: number;
     completion_tokens: number;
     total_tokens: number;
+    prompt_tokens_details?: {
+        cached_tokens: number;
+    };
+    completion_tokens_details?: {
+        reasoning_tokens: number;
+    };
 };
 
 export type StreamDelta = {
     role?: string;
     content?: string | null;
-    tool_calls?: ToolCall[];
+    tool_calls?: StreamToolCall[];
     native_tool_calls?: NativeToolResponse[];
-    grounding?: unknown;
+    grounding?: GroundingMetadata;
+    annotations?: UrlCitationAnnotation[];
+    refusal?: string;
     // Thinking/reasoning fields - VS Code Copilot expects Anthropic-style format
     // See: vscode-copilot-chat/src/platform/thinking/common/thinking.ts (RawThinkingDelta)
     thinking?: string;      // Anthropic: thinking text content
@@ -122,17 +191,160 @@ export type StreamChunk = {
     object: string;
     created: number;
     model: string;
-    choices: [{
-        index: number;
-        delta: StreamDelta;
-        finish_reason: string | null;
-        logprobs?: null;
-    }];
+    // One entry per choice that changed, empty for a usage-only chunk
+    choices: StreamChoice[];
     usage?: UsageData | null;
+    // Set on the first chunk when the model was switched, removed before the chunk is sent
+    _autoSwitchNotification?: string;
 };
 
-export type UsageData = {
-    prompt_tokens: number;
-    completion_tokens: number;
+export type StreamChoice = {
+    index: number;
+    delta: StreamDelta;
+    finish_reason: string | null;
+    logprobs?: null;
+};
+
+export type UsageData = ChatCompletionUsage;
+
+// Responses API (/v1/responses)
+
+export type ResponsesRequest = {
+    model: string;
+    input: string | ResponseInputItem[];
+    instructions?: string;
+    previous_response_id?: string;
+    stream?: boolean;
+    store?: boolean;
+    temperature?: number;
+    max_output_tokens?: number;
+    reasoning?: {
+        effort?: ReasoningEffort;
+        summary?: "auto" | "concise" | "detailed";
+    };
+    tools?: ResponseTool[];
+    tool_choice?: "none" | "auto" | "required" | {type: "function"; name: string};
+};
+
+export type ResponseTool = {
+    type: "function";
+    name: string;
+    description?: string;
+    parameters?: object;
+    strict?: boolean;
+};
+
+export type ResponseInputContent =
+    | {type: "input_text"; text: string}
+    | {type: "output_text"; text: string}
+    | {type: "input_image"; image_url?: string; detail?: "low" | "high" | "auto"};
+
+export type ResponseInputMessage = {
+    type?: "message";
+    role: "user" | "assistant" | "system" | "developer";
+    content: string | ResponseInputContent[];
+};
+
+export type ResponseInputItem =
+    | ResponseInputMessage
+    | ResponseFunctionCallItem
+    | ResponseFunctionCallOutputItem
+    | ResponseReasoningItem;
+
+export type ResponseUrlCitation = {
+    type: "url_citation";
+    url: string;
+    title: string;
+    start_index: number;
+    end_index: number;
+};
+
+export type ResponseOutputText = {
+    type: "output_text";
+    text: string;
+    annotations: ResponseUrlCitation[];
+};
+
+export type ResponseSummaryText = {
+    type: "summary_text";
+    text: string;
+};
+
+export type ResponseOutputMessage = {
+    type: "message";
+    id: string;
+    status: ResponseItemStatus;
+    role: "assistant";
+    content: ResponseOutputText[];
+};
+
+export type ResponseFunctionCallItem = {
+    type: "function_call";
+    id?: string;
+    call_id: string;
+    name: string;
+    arguments: string;
+    status?: ResponseItemStatus;
+};
+
+export type ResponseFunctionCallOutputItem = {
+    type: "function_call_output";
+    call_id: string;
+    output: string;
+};
+
+export type ResponseReasoningItem = {
+    type: "reasoning";
+    id: string;
+    summary: ResponseSummaryText[];
+    // Carries the Gemini thought signature so it can be restored from input items
+    encrypted_content?: string;
+    status?: ResponseItemStatus;
+};
+
+export type ResponseItemStatus = "in_progress" | "completed" | "incomplete";
+
+export type ResponseOutputItem = ResponseOutputMessage | ResponseFunctionCallItem | ResponseReasoningItem;
+
+export type ResponseUsage = {
+    input_tokens: number;
+    input_tokens_details: {
+        cached_tokens: number;
+    };
+    output_tokens: number;
+    output_tokens_details: {
+        reasoning_tokens: number;
+    };
     total_tokens: number;
 };
+
+export type ResponseObject = {
+    id: string;
+    object: "response";
+    created_at: number;
+    status: "in_progress" | "completed" | "incomplete" | "failed";
+    model: string;
+    output: ResponseOutputItem[];
+    output_text?: string;
+    instructions: string | null;
+    previous_response_id: string | null;
+    tools: ResponseTool[];
+    incomplete_details?: {reason: "max_output_tokens" | "content_filter"} | null;
+    usage: ResponseUsage | null;
+};
+
+export type ResponseStreamEventBody =
+    | {type: "response.created" | "response.in_progress" | "response.completed" | "response.incomplete"; response: ResponseObject}
+    | {type: "response.output_item.added" | "response.output_item.done"; output_index: number; item: ResponseOutputItem}
+    | {type: "response.content_part.added" | "response.content_part.done"; item_id: string; output_index: number; content_index: number; part: ResponseOutputText}
+    | {type: "response.output_text.delta"; item_id: string; output_index: number; content_index: number; delta: string}
+    | {type: "response.output_text.done"; item_id: string; output_index: number; content_index: number; text: string}
+    | {type: "response.output_text.annotation.added"; item_id: string; output_index: number; content_index: number; annotation_index: number; annotation: ResponseUrlCitation}
+    | {type: "response.reasoning_summary_part.added" | "response.reasoning_summary_part.done"; item_id: string; output_index: number; summary_index: number; part: ResponseSummaryText}
+    | {type: "response.reasoning_summary_text.delta"; item_id: string; output_index: number; summary_index: number; delta: string}
+    | {type: "response.reasoning_summary_text.done"; item_id: string; output_index: number; summary_index: number; text: string}
+    | {type: "response.function_call_arguments.delta"; item_id: string; output_index: number; delta: string}
+    | {type: "response.function_call_arguments.done"; item_id: string; output_index: number; arguments: string}
+    | {type: "error"; code: string | null; message: string; param: string | null};
+
+export type ResponseStreamEvent = ResponseStreamEventBody & {sequence_number: number};
@@ -0,0 +1,39 @@
+import {describe, it, expect} from "vitest";
+import {EventEmitter} from "events";
+import express from "express";
+import {createRequestSignal, getCancelledRequestCount, handleCancellation, RequestCancelledError} from "./cancellation.js";
+import {Logger} from "./logger.js";
+
+const logger: Logger = {error: () => undefined, warn: () => undefined, info: () => undefined, debug: () => undefined, isDebugEnabled: () => false};
+
+const createResponse = (writableFinished: boolean) => Object.assign(new EventEmitter(), {writableFinished}) as unknown as express.Response;
+
+describe("createRequestSignal", () => {
+    it("should abort when the client disconnects before the response is complete", () => {
+        const res = createResponse(false);
+        const signal = createRequestSignal(res);
+
+        res.emit("close");
+
+        expect(signal.reason).toBeInstanceOf(RequestCancelledError);
+    });
+
+    it("should not abort when the connection closes after the response", () => {
+        const res = createResponse(true);
+        const signal = createRequestSignal(res);
+
+        res.emit("close");
+
+        expect(signal.aborted).toBe(false);
+    });
+});
+
+describe("handleCancellation", () => {
+    it("should only count requests whose signal was aborted", () => {
+        const before = getCancelledRequestCount();
+
+        expect(handleCancellation(new AbortController().signal, logger)).toBe(false);
+        expect(handleCancellation(AbortSignal.abort(new RequestCancelledError()), logger)).toBe(true);
+        expect(getCancelledRequestCount()).toBe(before + 1);
+    });
+});
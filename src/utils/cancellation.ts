@@ -0,0 +1,47 @@
+import express from "express";
+import {Logger} from "./logger.js";
+
+/**
+ * Reason of the signal of a request whose client disconnected before the response was complete
+ */
+export class RequestCancelledError extends Error {
+    constructor() {
+        super("Request was cancelled by the client");
+        this.name = "RequestCancelledError";
+    }
+}
+
+let cancelledRequests = 0;
+
+/**
+ * Creates a signal that is aborted when the client disconnects before the response is complete,
+ * e.g. when Copilot cancels a generation. Listens on the response: the close event of the request
+ * already fires once its body was read.
+ */
+export const createRequestSignal = (res: express.Response): AbortSignal => {
+    const controller = new AbortController();
+    res.on("close", () => {
+        if (!res.writableFinished) {
+            controller.abort(new RequestCancelledError());
+        }
+    });
+    return controller.signal;
+};
+
+/**
+ * Logs and counts a request that failed because its client disconnected
+ * @returns {boolean} True if the request was cancelled, false for a real error
+ */
+export const handleCancellation = (signal: AbortSignal, logger: Logger): boolean => {
+    if (!signal.aborted) {
+        return false;
+    }
+    cancelledRequests++;
+    logger.info("request cancelled by the client");
+    return true;
+};
+
+/**
+ * Number of requests cancelled by their client since the server started
+ */
+export const getCancelledRequestCount = (): number => cancelledRequests;
@@ -0,0 +1,23 @@
+import {describe, it, expect} from "vitest";
+import {InvalidArgumentError} from "@commander-js/extra-typings";
+import {parseNumberOption} from "./cli.js";
+
+describe("parseNumberOption", () => {
+    it("should parse numbers in range", () => {
+        expect(parseNumberOption()("0")).toBe(0);
+        expect(parseNumberOption()("1.5")).toBe(1.5);
+        expect(parseNumberOption({max: 1})("0.5")).toBe(0.5);
+        expect(parseNumberOption({min: 1, integer: true})("3")).toBe(3);
+    });
+
+    it("should reject values that are no number", () => {
+        expect(() => parseNumberOption()("abc")).toThrow(new InvalidArgumentError("Expected a number of at least 0."));
+        expect(() => parseNumberOption()("")).toThrow(InvalidArgumentError);
+    });
+
+    it("should reject values out of range", () => {
+        expect(() => parseNumberOption()("-1")).toThrow(InvalidArgumentError);
+        expect(() => parseNumberOption({max: 1})("1.5")).toThrow(new InvalidArgumentError("Expected a number from 0 to 1."));
+        expect(() => parseNumberOption({min: 1, integer: true})("2.5")).toThrow(new InvalidArgumentError("Expected an integer of at least 1."));
+    });
+});
@@ -0,0 +1,20 @@
+import {InvalidArgumentError} from "@commander-js/extra-typings";
+
+export type NumberOptionRange = {
+    min?: number;
+    max?: number;
+    integer?: boolean;
+};
+
+/**
+ * Creates the parser of a numeric CLI option. Values that are no number or out of range are rejected
+ * like other invalid arguments, instead of reaching the server as NaN.
+ */
+export const parseNumberOption = ({min = 0, max = Infinity, integer = false}: NumberOptionRange = {}) => (value: string): number => {
+    const number = value.trim() ? Number(value) : NaN;
+    if (Number.isNaN(number) || number < min || number > max || (integer && !Number.isInteger(number))) {
+        const kind = integer ? "an integer" : "a number";
+        throw new InvalidArgumentError(max === Infinity ? `Expected ${kind} of at least ${min}.` : `Expected ${kind} from ${min} to ${max}.`);
+    }
+    return number;
+};
@@ -3,20 +3,28 @@ export const CODE_ASSIST_ENDPOINT = "https://cloudcode-pa.googleapis.com";
 export const CODE_ASSIST_API_VERSION = "v1internal";
 export const DEFAULT_PORT = "3000";
 export const DISABLE_GOOGLE_SEARCH = false;
+export const ENABLE_URL_CONTEXT = false;
+export const STREAM_FUNCTION_CALL_ARGUMENTS = false;
 export const DISABLE_BROWSER_AUTH = false;
 export const DISABLE_AUTO_MODEL_SWITCH = false;
+export const PROBE_AFTER_COOLDOWN = false;
+export const AUTO_SWITCH_NOTICE = false;
 export const DEFAULT_TEMPERATURE = 1;
+export const DEFAULT_HEARTBEAT_INTERVAL_SECONDS = 15;
 
 // Rate Limit Detection
 export const RATE_LIMIT_STATUS_CODES = [429, 503] as const;
-
-// Model Fallback Mapping
-export const AUTO_SWITCH_MODEL_MAP = {
-    "gemini-2.5-pro": "gemini-2.5-flash",
-    "gemini-2.5-flash": "gemini-2.5-flash-lite",
-} as const;
+// Quotas are per account, overloaded models are not, so only 429s move a request to the next account
+export const ACCOUNT_ROTATION_STATUS_CODES = [429] as const;
+export const DEFAULT_ACCOUNT_ROTATION = "round-robin";
 
 // Cooldown Configuration  
 export const DEFAULT_COOLDOWN_MINUTES = 10;
 
-
+// Retry Configuration
+export const RETRYABLE_STATUS_CODES = [500, 502, 504] as const;
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_INITIAL_DELAY_MS = 500;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 8000;
+export const DEFAULT_RETRY_JITTER = 0.5;
+export const DEFAULT_REQUEST_TIMEOUT_MS = 300000;
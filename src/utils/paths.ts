@@ -10,6 +10,7 @@ import * as os from "node:os";
 export const GEMINI_DIR = ".gemini";
 export const CREDENTIAL_FILENAME = "oauth_creds.json";
 export const GOOGLE_ACCOUNTS_FILENAME = "accounts.json";
+export const ACCOUNT_CREDENTIALS_DIRNAME = "account_creds";
 
 /**
  * Get the path to the cached credentials file
@@ -25,4 +26,13 @@ export function getCachedCredentialPath(): string {
  */
 export function getGoogleAccountsCachePath(): string {
     return path.join(os.homedir(), GEMINI_DIR, GOOGLE_ACCOUNTS_FILENAME);
-}
\ No newline at end of file
+}
+
+/**
+ * Get the path to the kept credentials of a Google account, used to switch between accounts
+ * @param email Email of the account
+ * @returns The absolute path to the credentials file of the account
+ */
+export function getAccountCredentialPath(email: string): string {
+    return path.join(os.homedir(), GEMINI_DIR, ACCOUNT_CREDENTIALS_DIRNAME, `${email}.json`);
+}
@@ -0,0 +1,103 @@
+import {describe, it, expect} from "vitest";
+import {HEARTBEAT, mergeStreams, withHeartbeats} from "./stream.js";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function* timed(values: Array<[string, number]>): AsyncGenerator<string> {
+    for (const [value, ms] of values) {
+        await delay(ms);
+        yield value;
+    }
+}
+
+describe("mergeStreams", () => {
+    it("should interleave values in arrival order with their stream index", async () => {
+        const merged: Array<{index: number; value: string}> = [];
+        for await (const item of mergeStreams([timed([["a1", 5], ["a2", 30]]), timed([["b1", 15]])])) {
+            merged.push(item);
+        }
+
+        expect(merged).toEqual([
+            {index: 0, value: "a1"},
+            {index: 1, value: "b1"},
+            {index: 0, value: "a2"}
+        ]);
+    });
+
+    it("should finish when every stream is empty", async () => {
+        const merged: unknown[] = [];
+        for await (const item of mergeStreams([timed([]), timed([])])) {
+            merged.push(item);
+        }
+
+        expect(merged).toEqual([]);
+    });
+
+    it("should close the remaining streams when one fails", async () => {
+        let closed = false;
+        async function* slow(): AsyncGenerator<string> {
+            try {
+                yield "slow";
+                await delay(50);
+                yield "never";
+            } finally {
+                closed = true;
+            }
+        }
+        const failing: AsyncIterable<string> = {
+            [Symbol.asyncIterator]: () => ({
+                next: async () => {
+                    await delay(10);
+                    throw new Error("upstream failed");
+                },
+            }),
+        };
+
+        await expect(async () => {
+            for await (const item of mergeStreams([slow(), failing])) {
+                expect(item.value).toBe("slow");
+            }
+        }).rejects.toThrow("upstream failed");
+        await delay(60);
+        expect(closed).toBe(true);
+    });
+});
+
+describe("withHeartbeats", () => {
+    it("should yield heartbeats while the stream is silent", async () => {
+        const values: Array<string | typeof HEARTBEAT> = [];
+        for await (const value of withHeartbeats(timed([["a", 5], ["b", 100]]), 40)) {
+            values.push(value);
+        }
+
+        expect(values).toEqual(["a", HEARTBEAT, HEARTBEAT, "b"]);
+    });
+
+    it("should yield heartbeats before the first value", async () => {
+        const values: Array<string | typeof HEARTBEAT> = [];
+        for await (const value of withHeartbeats(timed([["a", 100], ["b", 5]]), 40)) {
+            values.push(value);
+        }
+
+        expect(values).toEqual([HEARTBEAT, HEARTBEAT, "a", "b"]);
+    });
+
+    it("should stop with the stream", async () => {
+        const values: Array<string | typeof HEARTBEAT> = [];
+        for await (const value of withHeartbeats(timed([["a", 5]]), 20)) {
+            values.push(value);
+        }
+        await delay(50);
+
+        expect(values).toEqual(["a"]);
+    });
+
+    it("should pass values through when disabled", async () => {
+        const values: Array<string | typeof HEARTBEAT> = [];
+        for await (const value of withHeartbeats(timed([["a", 30]]), 0)) {
+            values.push(value);
+        }
+
+        expect(values).toEqual(["a"]);
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * Interleaves async streams in the order their values arrive, tagging each value with the
+ * index of its stream. Remaining streams are closed when one of them fails.
+ */
+export async function* mergeStreams<T>(streams: Array<AsyncIterable<T>>): AsyncGenerator<{index: number; value: T}> {
+    const iterators = streams.map((stream) => stream[Symbol.asyncIterator]());
+    const next = (index: number) => iterators[index].next().then((result) => ({index, result}));
+    const pending = new Map(iterators.map((_, index) => [index, next(index)]));
+
+    try {
+        while (pending.size > 0) {
+            const {index, result} = await Promise.race(pending.values());
+            if (result.done) {
+                pending.delete(index);
+            } else {
+                pending.set(index, next(index));
+                yield {index, value: result.value};
+            }
+        }
+    } finally {
+        for (const index of pending.keys()) {
+            // Swallow the close error, the one that ended the merge is already propagating
+            iterators[index].return?.().catch(() => undefined);
+        }
+    }
+}
+
+export const HEARTBEAT = Symbol("heartbeat");
+
+/**
+ * Passes the values of a stream through and yields HEARTBEAT whenever the stream was silent for
+ * intervalMs, so long pauses like thinking phases can keep the connection alive. An interval of 0
+ * disables heartbeats. They also cover the silence before the first value, so a heartbeat can send
+ * the response headers before upstream answered: later errors end the stream instead of setting its
+ * status. They stop with the stream.
+ */
+export async function* withHeartbeats<T>(stream: AsyncIterable<T>, intervalMs: number): AsyncGenerator<T | typeof HEARTBEAT> {
+    if (intervalMs <= 0) {
+        yield* stream;
+        return;
+    }
+
+    const iterator = stream[Symbol.asyncIterator]();
+    let pending: Promise<IteratorResult<T>> | undefined;
+    let finished = false;
+    try {
+        while (true) {
+            pending ??= iterator.next();
+            let timer: NodeJS.Timeout | undefined;
+            const silence = new Promise<typeof HEARTBEAT>((resolve) => {
+                timer = setTimeout(() => resolve(HEARTBEAT), intervalMs);
+            });
+            const result = await Promise.race([pending, silence]).finally(() => clearTimeout(timer));
+            if (result === HEARTBEAT) {
+                yield HEARTBEAT;
+                continue;
+            }
+            pending = undefined;
+            if (result.done) {
+                finished = true;
+                return;
+            }
+            yield result.value;
+        }
+    } finally {
+        if (!finished) {
+            // The consumer stopped early, a read still in flight must not fail unhandled
+            pending?.catch(() => undefined);
+            iterator.return?.().catch(() => undefined);
+        }
+    }
+}
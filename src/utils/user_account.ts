@@ -7,7 +7,7 @@
 import {promises as fsp, existsSync, readFileSync} from "node:fs";
 import {getGoogleAccountsCachePath} from "./paths.js";
 
-interface UserAccounts {
+export interface UserAccounts {
     active: string | null;
     old: string[];
 }
@@ -80,6 +80,14 @@ export function getCachedGoogleAccount(): string | null {
     }
 }
 
+/**
+ * Get the cached Google accounts
+ * @returns The active account and the accounts used before
+ */
+export async function getCachedGoogleAccounts(): Promise<UserAccounts> {
+    return readAccounts(getGoogleAccountsCachePath());
+}
+
 /**
  * Clear the cached Google account
  */